@@ -1,35 +1,105 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { v4 as uuidv4 } from 'uuid';
-import { initDB, getSettings, updateSettings, db } from './lib/storage/db';
-import { createDocument, updateDocumentPosition } from './lib/storage/document-store';
+import { useState, useEffect, useRef, useCallback, useMemo, useSyncExternalStore } from 'react';
+import { initDB, getSettings, updateSettings, db, DEFAULT_SETTINGS } from './lib/storage/db';
+import { createDocument, updateDocumentPosition, hasResumePosition } from './lib/storage/document-store';
+import {
+  createPauseProfile,
+  getAllPauseProfiles,
+  updatePauseProfile,
+  deletePauseProfile,
+} from './lib/storage/pause-profile-store';
 import {
   createSession,
   updateSessionProgress,
   finalizeSession,
+  logSpeedChange,
   calculateGlideScore,
   formatDuration,
 } from './lib/storage/session-store';
+import {
+  createEventRecorder,
+  deriveReadingStats,
+  getSessionEvents,
+  getDocumentEvents,
+  buildReadingHeatmap,
+  type EventRecorder,
+  type HeatBucket,
+} from './lib/storage/event-store';
+import { saveReaderSettings } from './lib/storage/reader-settings-store';
 import { WordDisplay } from './components/rsvp/WordDisplay';
+import { ContextPeek } from './components/rsvp/ContextPeek';
+import { ChapterDrawer } from './components/progress/ChapterDrawer';
+import { ResumePrompt } from './components/progress/ResumePrompt';
 import { DualProgressBar } from './components/progress/DualProgressBar';
 import { SessionSummary } from './components/session/SessionSummary';
-import { tokenize } from './lib/rsvp/tokenizer';
-import type { Token, UserSettings, Chapter, Session } from './types';
+import { Library } from './components/library/Library';
+import { FileImport } from './components/library/FileImport';
+import { PauseProfileEditor } from './components/settings/PauseProfileEditor';
+import {
+  tokenize,
+  buildWordOffsets,
+  tokenIndexForWord,
+  describePauseBreakdown,
+  tokenIndexAtOffset,
+} from './lib/rsvp/tokenizer';
+import { resolvePauseProfile } from './lib/rsvp/pause-profiles';
+import {
+  PlaybackController,
+  simulatePlayback,
+  scaleTimeline,
+  type PlaybackTimeline,
+  type PlaybackTimingStats,
+} from './lib/rsvp/playback';
+import { AdaptiveSpeed } from './lib/rsvp/adaptive';
+import { detectChapters } from './lib/rsvp/chapters';
+import { detectLanguage, primaryLanguage, isRTLLanguage } from './lib/rsvp/segmenter';
+import { extractFromPaste, type ExtractedContent } from './lib/extract/non-linear';
+import {
+  resolveNavigationTarget,
+  isBackwardTarget,
+  type NavigationTarget,
+} from './lib/rsvp/navigation';
+import type {
+  Token,
+  UserSettings,
+  Chapter,
+  Session,
+  ChunkSettings,
+  SpeedRamp,
+  SpeedChange,
+  AdaptiveWpmSettings,
+  ReadingEvent,
+  TextDirection,
+  NonLinearPolicy,
+  Theme,
+  CustomPauseProfile,
+  PauseProfile,
+  Document,
+} from './types';
 import './styles.css';
 
 // ============================================
 // APP SHELL - For Phase 2/3 (Library, PDF, etc)
 // ============================================
+type AppView = 'reader' | 'library';
+
 function AppShell({
+  view,
+  onNavigate,
   children,
 }: {
+  view: AppView;
+  onNavigate: (view: AppView) => void;
   children: React.ReactNode;
 }) {
+  const tabClass = (tab: AppView) =>
+    `${view === tab ? 'text-white' : 'text-zinc-500'} hover:text-white text-sm transition-colors`;
+
   return (
     <div className="min-h-screen bg-zinc-950 text-white">
       {/* Top Navigation - Phase 2/3 ready */}
       <nav className="border-b border-zinc-900 bg-zinc-950/80 backdrop-blur-lg sticky top-0 z-40">
         <div className="max-w-6xl mx-auto px-6 py-4 flex items-center justify-between">
-          <div className="flex items-center gap-3">
+          <div className="flex items-center gap-3 cursor-pointer" onClick={() => onNavigate('reader')}>
             <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-amber-500 to-red-500 flex items-center justify-center">
               <span className="text-black font-bold text-sm">G</span>
             </div>
@@ -38,7 +108,10 @@ function AppShell({
 
           {/* Navigation tabs - Phase 2/3 */}
           <div className="flex items-center gap-6">
-            <button className="text-zinc-300 hover:text-white text-sm transition-colors">
+            <button onClick={() => onNavigate('reader')} className={tabClass('reader')}>
+              Read
+            </button>
+            <button onClick={() => onNavigate('library')} className={tabClass('library')}>
               Library
             </button>
             <button className="text-zinc-500 hover:text-white text-sm transition-colors">
@@ -59,6 +132,89 @@ function AppShell({
   );
 }
 
+// Languages offered as a manual override (auto-detection covers the rest)
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  ja: '日本語',
+  zh: '中文',
+  ko: '한국어',
+  th: 'ไทย',
+  he: 'עברית',
+  ar: 'العربية',
+};
+
+// Secondary dock navigation, in reading order
+const NAVIGATION_BUTTONS: Array<{ target: NavigationTarget; label: string; hint: string }> = [
+  { target: 'chapter-prev', label: '⇤ Chapter', hint: 'Previous chapter ([)' },
+  { target: 'paragraph-prev', label: '← Paragraph', hint: 'Previous paragraph (Shift+←)' },
+  { target: 'sentence-start', label: '↺ Sentence', hint: 'Restart sentence (R)' },
+  { target: 'paragraph-next', label: 'Paragraph →', hint: 'Next paragraph (Shift+→)' },
+  { target: 'chapter-next', label: 'Chapter ⇥', hint: 'Next chapter (])' },
+];
+
+// Playback is simulated once per text at this WPM and scaled to the reader's
+const TIMELINE_BASE_WPM = 300;
+
+// How often the reading mode's timing readout refreshes while playing
+const TIMING_POLL_MS = 1000;
+
+// Non-linear block settings: each kind and the modes it supports
+const NON_LINEAR_KINDS: Array<{
+  key: 'tables' | 'figures' | 'equations';
+  label: string;
+  modes: Array<NonLinearPolicy['tables']>;
+}> = [
+  { key: 'tables', label: 'Tables', modes: ['skip', 'snapshot', 'linearize'] },
+  { key: 'figures', label: 'Figures', modes: ['skip', 'snapshot'] },
+  { key: 'equations', label: 'Equations', modes: ['skip', 'snapshot'] },
+];
+
+const NON_LINEAR_MODE_LABELS: Record<NonLinearPolicy['tables'], string> = {
+  skip: 'Skip',
+  snapshot: 'Snapshot',
+  linearize: 'Read rows',
+};
+
+// Reading mode surfaces per theme; the amber/red accents are shared
+const READING_THEMES = {
+  dark: {
+    base: 'linear-gradient(135deg, #0c0a09 0%, #0a0a0a 40%, #0f0806 70%, #0c0a09 100%)',
+    wash: 'radial-gradient(ellipse 80% 50% at 50% 50%, rgba(180, 83, 9, 0.06) 0%, transparent 60%)',
+    accent: 'radial-gradient(ellipse 120% 40% at 50% 80%, rgba(239, 68, 68, 0.04) 0%, transparent 50%)',
+    vignette: 'radial-gradient(ellipse 70% 60% at 50% 50%, transparent 0%, rgba(0,0,0,0.4) 100%)',
+    guide: 'rgba(255,255,255,0.15)',
+    line: 'via-white/10',
+    bar: 'bg-zinc-950/80 border-white/5',
+    dock: 'bg-zinc-950/60 border-white/5',
+    glass: 'bg-white/5 border-white/10 hover:bg-white/10',
+    ghost: 'hover:text-zinc-300 hover:bg-white/5 hover:border-white/10',
+    track: 'rgba(255,255,255,0.05)',
+    icon: 'text-zinc-400',
+    strong: 'text-white',
+    text: 'text-zinc-300',
+    muted: 'text-zinc-500',
+    faint: 'text-zinc-600',
+  },
+  light: {
+    base: 'linear-gradient(135deg, #fafaf9 0%, #f5f5f4 40%, #fbf3ea 70%, #fafaf9 100%)',
+    wash: 'radial-gradient(ellipse 80% 50% at 50% 50%, rgba(245, 158, 11, 0.08) 0%, transparent 60%)',
+    accent: 'radial-gradient(ellipse 120% 40% at 50% 80%, rgba(239, 68, 68, 0.04) 0%, transparent 50%)',
+    vignette: 'radial-gradient(ellipse 70% 60% at 50% 50%, transparent 0%, rgba(120,113,108,0.12) 100%)',
+    guide: 'rgba(0,0,0,0.12)',
+    line: 'via-black/10',
+    bar: 'bg-white/80 border-black/5',
+    dock: 'bg-white/70 border-black/5',
+    glass: 'bg-black/5 border-black/10 hover:bg-black/10',
+    ghost: 'hover:text-zinc-800 hover:bg-black/5 hover:border-black/10',
+    track: 'rgba(0,0,0,0.08)',
+    icon: 'text-zinc-600',
+    strong: 'text-zinc-900',
+    text: 'text-zinc-700',
+    muted: 'text-zinc-500',
+    faint: 'text-zinc-400',
+  },
+} as const;
+
 // ============================================
 // CINEMATIC READING MODE - Toggleable overlay
 // ============================================
@@ -69,11 +225,23 @@ function ReadingMode({
   isPlaying,
   isComplete,
   wpm,
+  effectiveWpm,
+  timeline,
+  timingStats,
   fontSize,
+  direction,
+  theme,
+  guidesOn,
+  heatmap,
+  countdownSeconds,
+  speedNotice,
   completedSession,
+  resumeIndex,
+  onResumeDismiss,
   onPlayPause,
   onRestart,
   onSkip,
+  onJump,
   onWpmChange,
   onScrubStart,
   onScrubMove,
@@ -86,19 +254,65 @@ function ReadingMode({
   isPlaying: boolean;
   isComplete: boolean;
   wpm: number;
+  effectiveWpm: number;
+  timeline: PlaybackTimeline; // Simulated playback at the current WPM, shared by the progress views
+  timingStats: PlaybackTimingStats | null;
   fontSize: 'S' | 'M' | 'L' | 'XL';
+  direction: TextDirection;
+  theme: Theme;
+  guidesOn: boolean;
+  heatmap?: HeatBucket[];
+  countdownSeconds: number;
+  speedNotice: SpeedChange | null;
   completedSession: Session | null;
+  resumeIndex: number | null; // Saved position to offer resuming from
+  onResumeDismiss: () => void;
   onPlayPause: () => void;
   onRestart: () => void;
-  onSkip: (delta: number) => void;
+  onSkip: (target: NavigationTarget) => void;
+  onJump: (index: number) => void;
   onWpmChange: (wpm: number) => void;
   onScrubStart?: () => void;
   onScrubMove?: (index: number) => void;
   onScrubEnd?: () => void;
   onExit: () => void;
 }) {
-  const progress = tokens.length > 0 ? (currentIndex / tokens.length) * 100 : 0;
+  const wordOffsets = useMemo(() => buildWordOffsets(tokens), [tokens]);
+  const totalWords = wordOffsets[tokens.length];
+  const progress = totalWords > 0 ? (wordOffsets[currentIndex] / totalWords) * 100 : 0;
   const currentToken = tokens[currentIndex] || null;
+  const colors = READING_THEMES[theme];
+
+  // Chapter table of contents drawer
+  const [isTocOpen, setIsTocOpen] = useState(false);
+
+  // Pre-play countdown: seconds left, or null when not counting down
+  const [countdown, setCountdown] = useState<number | null>(null);
+
+  // Play goes through the countdown when one is configured; pressing
+  // play again during the countdown cancels it
+  const handlePlayPause = useCallback(() => {
+    if (countdown !== null) {
+      setCountdown(null);
+    } else if (!isPlaying && countdownSeconds > 0) {
+      setCountdown(countdownSeconds);
+    } else {
+      onPlayPause();
+    }
+  }, [countdown, isPlaying, countdownSeconds, onPlayPause]);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    const timer = window.setTimeout(() => {
+      if (countdown <= 1) {
+        setCountdown(null);
+        onPlayPause();
+      } else {
+        setCountdown(countdown - 1);
+      }
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, onPlayPause]);
 
   // Calculate transition duration to match word display time for smooth progress
   const baseMs = 60000 / wpm;
@@ -122,16 +336,35 @@ function ReadingMode({
         case ' ':
           e.preventDefault();
           if (!isComplete) {
-            onPlayPause();
+            handlePlayPause();
           }
           break;
         case 'ArrowLeft':
           e.preventDefault();
-          onSkip(-10);
+          onSkip(e.shiftKey ? 'paragraph-prev' : 'sentence-prev');
           break;
         case 'ArrowRight':
           e.preventDefault();
-          onSkip(10);
+          onSkip(e.shiftKey ? 'paragraph-next' : 'sentence-next');
+          break;
+        case 'r':
+        case 'R':
+          if (e.ctrlKey || e.metaKey) break; // Leave browser reload alone
+          e.preventDefault();
+          onSkip('sentence-start');
+          break;
+        case '[':
+          e.preventDefault();
+          onSkip('chapter-prev');
+          break;
+        case ']':
+          e.preventDefault();
+          onSkip('chapter-next');
+          break;
+        case 't':
+        case 'T':
+          e.preventDefault();
+          setIsTocOpen((open) => !open);
           break;
         case 'ArrowUp':
           e.preventDefault();
@@ -146,7 +379,7 @@ function ReadingMode({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onExit, onPlayPause, onSkip, onWpmChange, wpm, isComplete]);
+  }, [onExit, handlePlayPause, onSkip, onWpmChange, wpm, isComplete]);
 
   return (
     <div className="fixed inset-0 z-50 flex flex-col overflow-hidden">
@@ -155,98 +388,198 @@ function ReadingMode({
       <div 
         className="absolute inset-0 pointer-events-none"
         style={{
-          background: 'linear-gradient(135deg, #0c0a09 0%, #0a0a0a 40%, #0f0806 70%, #0c0a09 100%)',
+          background: colors.base,
         }}
       />
       {/* Ember wash: subtle warm radial in center */}
       <div 
         className="absolute inset-0 pointer-events-none"
         style={{
-          background: 'radial-gradient(ellipse 80% 50% at 50% 50%, rgba(180, 83, 9, 0.06) 0%, transparent 60%)',
+          background: colors.wash,
         }}
       />
       {/* Secondary ember accent: lower, wider */}
       <div 
         className="absolute inset-0 pointer-events-none"
         style={{
-          background: 'radial-gradient(ellipse 120% 40% at 50% 80%, rgba(239, 68, 68, 0.04) 0%, transparent 50%)',
+          background: colors.accent,
         }}
       />
       {/* Vignette: dark edges */}
       <div 
         className="absolute inset-0 pointer-events-none"
         style={{
-          background: 'radial-gradient(ellipse 70% 60% at 50% 50%, transparent 0%, rgba(0,0,0,0.4) 100%)',
+          background: colors.vignette,
         }}
       />
 
       {/* === TOP PROGRESS BAR === */}
-      <div className="relative z-10 px-4 pt-4 bg-zinc-950/80 backdrop-blur-sm border-b border-white/5">
+      <div className={`relative z-10 px-4 pt-4 ${colors.bar} backdrop-blur-sm border-b`}>
         {/* Subtle top highlight line */}
-        <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-white/10 to-transparent" />
+        <div className={`absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent ${colors.line} to-transparent`} />
         <DualProgressBar
           chapters={chapters}
           currentIndex={currentIndex}
           totalTokens={tokens.length}
           wpm={wpm}
           tokens={tokens}
+          timeline={timeline}
           onScrubStart={onScrubStart}
           onScrubMove={onScrubMove}
           onScrubEnd={onScrubEnd}
+          direction={direction}
+          theme={theme}
+          heatmap={heatmap}
         />
       </div>
 
       {/* === EXIT BUTTON (glass pill) === */}
       <button
         onClick={onExit}
-        className="absolute top-5 right-5 w-10 h-10 rounded-full bg-white/5 border border-white/10 backdrop-blur-md flex items-center justify-center transition-all z-20 hover:bg-white/10 hover:border-amber-500/30 hover:ring-1 hover:ring-amber-500/20"
+        className={`absolute top-5 right-5 w-10 h-10 rounded-full ${colors.glass} border backdrop-blur-md flex items-center justify-center transition-all z-20 hover:border-amber-500/30 hover:ring-1 hover:ring-amber-500/20`}
       >
-        <svg className="w-4 h-4 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <svg className={`w-4 h-4 ${colors.icon}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
         </svg>
       </button>
 
-      {/* === READING STAGE === */}
-      <div className="flex-1 flex items-center justify-center relative z-10">
-        {/* === FOCUS GUIDE LINES === */}
-        {/* Top horizontal line */}
-        <div className="absolute top-[15%] left-0 right-0 h-px bg-gradient-to-r from-transparent via-white/10 to-transparent pointer-events-none" />
-        {/* Bottom horizontal line */}
-        <div className="absolute bottom-[15%] left-0 right-0 h-px bg-gradient-to-r from-transparent via-white/10 to-transparent pointer-events-none" />
-        
-        {/* Vertical guide from top line downward (stops before word area) */}
-        <div 
-          className="absolute left-1/2 -translate-x-1/2 w-px pointer-events-none"
-          style={{
-            top: '15%',
-            height: '20%',
-            background: 'linear-gradient(to bottom, rgba(255,255,255,0.15) 0%, rgba(239,68,68,0.08) 100%)',
+      {/* === CHAPTERS BUTTON (glass pill) === */}
+      {chapters.length > 1 && (
+        <button
+          onClick={() => setIsTocOpen((open) => !open)}
+          title="Chapters (T)"
+          className={`absolute top-5 left-5 w-10 h-10 rounded-full ${colors.glass} border backdrop-blur-md flex items-center justify-center transition-all z-20 hover:border-amber-500/30 hover:ring-1 hover:ring-amber-500/20`}
+        >
+          <svg className={`w-4 h-4 ${colors.icon}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h10" />
+          </svg>
+        </button>
+      )}
+
+      {/* === CHAPTER DRAWER === */}
+      {isTocOpen && (
+        <ChapterDrawer
+          chapters={chapters}
+          tokens={tokens}
+          currentIndex={currentIndex}
+          timeline={timeline}
+          isComplete={isComplete}
+          direction={direction}
+          theme={theme}
+          onJump={(index) => {
+            onJump(index);
+            setIsTocOpen(false);
           }}
+          onClose={() => setIsTocOpen(false)}
         />
-        {/* Vertical guide from bottom line upward (stops before word area) */}
-        <div 
-          className="absolute left-1/2 -translate-x-1/2 w-px pointer-events-none"
-          style={{
-            bottom: '15%',
-            height: '20%',
-            background: 'linear-gradient(to top, rgba(255,255,255,0.15) 0%, rgba(239,68,68,0.08) 100%)',
+      )}
+
+      {/* === RESUME PROMPT === */}
+      {resumeIndex !== null && !isTocOpen && (
+        <ResumePrompt
+          tokens={tokens}
+          chapters={chapters}
+          index={resumeIndex}
+          timeline={timeline}
+          direction={direction}
+          theme={theme}
+          onResume={onResumeDismiss}
+          onJump={(index) => {
+            onJump(index);
+            onResumeDismiss();
           }}
         />
+      )}
+
+      {/* === READING STAGE === */}
+      <div className="flex-1 flex items-center justify-center relative z-10">
+        {/* === FOCUS GUIDE LINES (settings: guidesOn) === */}
+        {guidesOn && (
+          <>
+            {/* Top horizontal line */}
+            <div className={`absolute top-[15%] left-0 right-0 h-px bg-gradient-to-r from-transparent ${colors.line} to-transparent pointer-events-none`} />
+            {/* Bottom horizontal line */}
+            <div className={`absolute bottom-[15%] left-0 right-0 h-px bg-gradient-to-r from-transparent ${colors.line} to-transparent pointer-events-none`} />
+
+            {/* Vertical guide from top line downward (stops before word area) */}
+            <div
+              className="absolute left-1/2 -translate-x-1/2 w-px pointer-events-none"
+              style={{
+                top: '15%',
+                height: '20%',
+                background: `linear-gradient(to bottom, ${colors.guide} 0%, rgba(239,68,68,0.08) 100%)`,
+              }}
+            />
+            {/* Vertical guide from bottom line upward (stops before word area) */}
+            <div
+              className="absolute left-1/2 -translate-x-1/2 w-px pointer-events-none"
+              style={{
+                bottom: '15%',
+                height: '20%',
+                background: `linear-gradient(to top, ${colors.guide} 0%, rgba(239,68,68,0.08) 100%)`,
+              }}
+            />
+          </>
+        )}
 
         {/* Centered lane for word display (allows overflow) */}
         <div className="w-full max-w-5xl px-8 flex items-center justify-center">
-          <WordDisplay token={currentToken} fontSize={fontSize} />
+          <WordDisplay token={currentToken} fontSize={fontSize} theme={theme} />
         </div>
 
+        {/* Adaptive speed change notice */}
+        {speedNotice && (
+          <div className="absolute bottom-[22%] inset-x-0 flex justify-center pointer-events-none">
+            <div
+              key={speedNotice.at.getTime()}
+              className={`px-4 py-1.5 rounded-full border text-sm ${colors.glass} ${colors.muted} animate-in fade-in duration-300`}
+            >
+              {speedNotice.reason === 'rewinds' ? 'Easing to' : 'Speeding up to'}{' '}
+              <span className="text-amber-500 font-medium">{speedNotice.to} WPM</span>
+              {speedNotice.reason === 'rewinds' ? ' after rewinds' : ' — steady reading'}
+            </div>
+          </div>
+        )}
+
+        {/* Countdown before playback starts */}
+        {countdown !== null && (
+          <div className={`absolute inset-0 flex items-center justify-center ${theme === 'light' ? 'bg-stone-50/80' : 'bg-black/60'} backdrop-blur-sm`}>
+            <div
+              key={countdown}
+              className="text-8xl font-light bg-gradient-to-r from-amber-500 to-red-500 bg-clip-text text-transparent animate-pulse"
+            >
+              {countdown}
+            </div>
+          </div>
+        )}
+
+        {/* Context peek: the surrounding paragraph, click a word to jump there */}
+        {!isPlaying && countdown === null && !isComplete && tokens.length > 0 && (
+          <div className="absolute top-6 inset-x-0 flex justify-center px-8">
+            <ContextPeek
+              tokens={tokens}
+              currentIndex={currentIndex}
+              direction={direction}
+              theme={theme}
+              onSelect={onJump}
+            />
+          </div>
+        )}
+
         {/* Progress info - premium design (shown when paused and not complete) */}
-        {!isPlaying && !isComplete && tokens.length > 0 && (
+        {!isPlaying && countdown === null && !isComplete && tokens.length > 0 && (
           <div className="absolute bottom-8 left-1/2 -translate-x-1/2 text-center">
             <div className="bg-gradient-to-r from-amber-500 to-red-500 bg-clip-text text-transparent text-2xl font-bold mb-1">
               {Math.round(progress)}%
             </div>
-            <div className="text-zinc-300 text-sm font-medium">
-              {tokens.length - currentIndex} words remaining
+            <div className={`${colors.text} text-sm font-medium`}>
+              {totalWords - wordOffsets[currentIndex]} words remaining
             </div>
+            {currentToken && describePauseBreakdown(currentToken.pauseBreakdown).length > 0 && (
+              <div className={`${colors.muted} text-xs mt-1`}>
+                Held longer: {describePauseBreakdown(currentToken.pauseBreakdown).join(' · ')}
+              </div>
+            )}
           </div>
         )}
 
@@ -256,15 +589,16 @@ function ReadingMode({
             session={completedSession}
             onRestart={onRestart}
             onExit={onExit}
+            theme={theme}
           />
         )}
       </div>
 
       {/* === CONTROLS DOCK (glass floating panel) === */}
       {!isComplete && (
-        <div className={`${isPlaying ? 'opacity-0 pointer-events-none' : 'opacity-100'} transition-opacity duration-300 relative z-10`}>
+        <div className={`${isPlaying || countdown !== null ? 'opacity-0 pointer-events-none' : 'opacity-100'} transition-opacity duration-300 relative z-10`}>
           {/* Glass dock container */}
-          <div className="bg-zinc-950/60 backdrop-blur-xl border-t border-white/5">
+          <div className={`${colors.dock} backdrop-blur-xl border-t`}>
             {/* Subtle top glow line */}
             <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-amber-500/20 to-transparent" />
             
@@ -273,15 +607,14 @@ function ReadingMode({
               <div className="flex items-center justify-center gap-6 mb-6">
                 <button
                   onClick={() => onWpmChange(Math.max(200, wpm - 50))}
-                  className="w-10 h-10 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 hover:border-amber-500/30 flex items-center justify-center transition-all"
-                  disabled={isPlaying}
+                  className={`w-10 h-10 rounded-full ${colors.glass} border hover:border-amber-500/30 flex items-center justify-center transition-all`}
                 >
-                  <span className="text-zinc-400 text-lg font-light">−</span>
+                  <span className={`${colors.icon} text-lg font-light`}>−</span>
                 </button>
 
                 <div className="text-center min-w-[180px]">
                   <div className="text-3xl font-light tracking-tight mb-2">
-                    <span className="text-white font-medium">{wpm}</span>
+                    <span className={`${colors.strong} font-medium`}>{wpm}</span>
                     <span className="text-sm text-amber-500/80 ml-2 font-medium tracking-wide">WPM</span>
                   </div>
                   <input
@@ -291,53 +624,64 @@ function ReadingMode({
                     step="10"
                     value={wpm}
                     onChange={(e) => onWpmChange(parseInt(e.target.value, 10))}
-                    className="w-full h-1.5 bg-white/5 rounded-full appearance-none cursor-pointer slider"
+                    className="w-full h-1.5 rounded-full appearance-none cursor-pointer slider"
                     style={{
-                      background: `linear-gradient(to right, #d97706 0%, #ef4444 ${((wpm - 200) / 700) * 100}%, rgba(255,255,255,0.05) ${((wpm - 200) / 700) * 100}%, rgba(255,255,255,0.05) 100%)`,
+                      background: `linear-gradient(to right, #d97706 0%, #ef4444 ${((wpm - 200) / 700) * 100}%, ${colors.track} ${((wpm - 200) / 700) * 100}%, ${colors.track} 100%)`,
                     }}
-                    disabled={isPlaying}
                   />
-                  <div className="flex justify-between text-xs text-zinc-600 mt-1.5">
+                  <div className={`flex justify-between text-xs ${colors.faint} mt-1.5`}>
                     <span>200</span>
-                    <span>550</span>
+                    {/* Speed actually delivered by the timers while playing */}
+                    <span className={isPlaying && effectiveWpm < wpm * 0.95 ? 'text-amber-500/80' : undefined}>
+                      {isPlaying ? `${effectiveWpm} effective` : '550'}
+                    </span>
                     <span>900</span>
                   </div>
+                  {/* Timer telemetry: words actually shown and how late ticks run */}
+                  {isPlaying && timingStats && (
+                    <div
+                      className={`text-[10px] ${colors.faint} mt-1 tabular-nums`}
+                      title={`At this lag, ${timingStats.correctedWpm} WPM would deliver ${timingStats.targetWpm}`}
+                    >
+                      {Math.round(timingStats.wordsPerMinute)} words/min shown · drift {Math.round(timingStats.averageDriftMs)} ms
+                    </div>
+                  )}
                 </div>
 
                 <button
                   onClick={() => onWpmChange(Math.min(900, wpm + 50))}
-                  className="w-10 h-10 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 hover:border-amber-500/30 flex items-center justify-center transition-all"
-                  disabled={isPlaying}
+                  className={`w-10 h-10 rounded-full ${colors.glass} border hover:border-amber-500/30 flex items-center justify-center transition-all`}
                 >
-                  <span className="text-zinc-400 text-lg font-light">+</span>
+                  <span className={`${colors.icon} text-lg font-light`}>+</span>
                 </button>
               </div>
 
               {/* Playback controls row */}
               <div className="flex items-center justify-center gap-4">
-                {/* Skip back */}
+                {/* Previous sentence */}
                 <button
-                  onClick={() => onSkip(-10)}
-                  className="px-3 py-2 text-zinc-500 hover:text-zinc-300 hover:bg-white/5 rounded-lg transition-all text-sm font-medium border border-transparent hover:border-white/10"
+                  onClick={() => onSkip('sentence-prev')}
+                  className={`px-3 py-2 ${colors.muted} ${colors.ghost} rounded-lg transition-all text-sm font-medium border border-transparent`}
                   disabled={isPlaying}
+                  title="Previous sentence (←)"
                 >
-                  ← 10
+                  ← Sentence
                 </button>
 
                 {/* Restart */}
                 <button
                   onClick={onRestart}
-                  className="w-10 h-10 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 hover:border-amber-500/30 flex items-center justify-center transition-all"
+                  className={`w-10 h-10 rounded-full ${colors.glass} border hover:border-amber-500/30 flex items-center justify-center transition-all`}
                   disabled={isPlaying}
                 >
-                  <svg className="w-4 h-4 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <svg className={`w-4 h-4 ${colors.icon}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
                   </svg>
                 </button>
 
                 {/* Play/Pause - primary action */}
                 <button
-                  onClick={onPlayPause}
+                  onClick={handlePlayPause}
                   className="w-14 h-14 rounded-full bg-gradient-to-r from-amber-500 to-red-500 hover:from-amber-400 hover:to-red-400 flex items-center justify-center transition-all hover:scale-105 shadow-lg shadow-amber-500/20"
                 >
                   {isPlaying ? (
@@ -352,15 +696,31 @@ function ReadingMode({
                   )}
                 </button>
 
-                {/* Skip forward */}
+                {/* Next sentence */}
                 <button
-                  onClick={() => onSkip(10)}
-                  className="px-3 py-2 text-zinc-500 hover:text-zinc-300 hover:bg-white/5 rounded-lg transition-all text-sm font-medium border border-transparent hover:border-white/10"
+                  onClick={() => onSkip('sentence-next')}
+                  className={`px-3 py-2 ${colors.muted} ${colors.ghost} rounded-lg transition-all text-sm font-medium border border-transparent`}
                   disabled={isPlaying}
+                  title="Next sentence (→)"
                 >
-                  10 →
+                  Sentence →
                 </button>
               </div>
+
+              {/* Navigation row: chapter / paragraph / sentence restart */}
+              <div className="flex items-center justify-center gap-1 mt-4">
+                {NAVIGATION_BUTTONS.map(({ target, label, hint }) => (
+                  <button
+                    key={target}
+                    onClick={() => onSkip(target)}
+                    className={`px-2.5 py-1 text-xs ${colors.faint} ${colors.ghost} rounded-md transition-all border border-transparent`}
+                    disabled={isPlaying}
+                    title={hint}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
             </div>
           </div>
         </div>
@@ -381,237 +741,239 @@ function App() {
     'Adjust the speed to find your optimal reading flow. ' +
     'This is the fastest way to consume articles, PDFs, and documents.'
   );
-  const [tokens, setTokens] = useState<Token[]>([]);
-  const [chapters, setChapters] = useState<Chapter[]>([
-    { id: 'default', title: 'Full Text', startTokenIndex: 0, endTokenIndex: 0 }
-  ]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isComplete, setIsComplete] = useState(false);
-  const [wpm, setWpm] = useState(300);
+  // Playback lives in a headless controller; this component is a view over it
+  const [playback] = useState(() => new PlaybackController({ wpm: 300 }));
+  const {
+    tokens,
+    index: currentIndex,
+    isPlaying,
+    isComplete,
+    wpm,
+    effectiveWpm,
+  } = useSyncExternalStore(playback.subscribe, playback.getState);
+  const wordOffsets = useMemo(() => buildWordOffsets(tokens), [tokens]);
+  const totalWords = wordOffsets[tokens.length];
+  // One simulated playback per text, scaled to the current WPM, for reading
+  // time and every time-left readout
+  const baseTimeline = useMemo(() => simulatePlayback(tokens, TIMELINE_BASE_WPM), [tokens]);
+  const timeline = useMemo(
+    () => scaleTimeline(baseTimeline, tokens, TIMELINE_BASE_WPM, wpm),
+    [baseTimeline, tokens, wpm]
+  );
+  const readingTimeMs = timeline.durationMs;
   const [isInReadingMode, setIsInReadingMode] = useState(false);
+  const [view, setView] = useState<AppView>('reader');
+  // Document opened from the library; null reads the pasted text
+  const [openedDocument, setOpenedDocument] = useState<Document | null>(null);
+  // Word to start at when new text is loaded
+  const startWordRef = useRef(0);
+  // Saved word position offered in the resume prompt; cleared once playing
+  const [resumeWord, setResumeWord] = useState<number | null>(null);
   const [wasPlayingBeforeScrub, setWasPlayingBeforeScrub] = useState(false);
+  const [pauseProfiles, setPauseProfiles] = useState<CustomPauseProfile[]>([]);
 
   // Session state
   const [currentDocumentId, setCurrentDocumentId] = useState<string | null>(null);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
-  const [previousIndex, setPreviousIndex] = useState(0);
   const [completedSession, setCompletedSession] = useState<Session | null>(null);
 
-  // WPM history for best sustained 60s calculation
-  const wpmHistory = useRef<{ timestamp: number; wpm: number }[]>([]);
+  // Event recorder for the current session
+  const recorderRef = useRef<EventRecorder | null>(null);
 
-  // Timer ref for clean playback control
-  const timerRef = useRef<number | null>(null);
+  // Stop the playback timer on unmount
+  useEffect(() => () => playback.pause(), [playback]);
 
   useEffect(() => {
     initDB().then(() => {
       getSettings().then(setSettings);
+      getAllPauseProfiles().then(setPauseProfiles);
     });
   }, []); // Only run once on mount
 
+  // Warm-up ramp applies from the next play or seek
+  const speedRamp = settings?.speedRamp;
   useEffect(() => {
-    const initDocument = async () => {
-      const sampleTokens = tokenize(sampleText);
-      setTokens(sampleTokens);
-      setCurrentIndex(0);
-      setIsPlaying(false);
-      setIsComplete(false);
-
-      // Generate chapters from text
-      const detectedChapters = detectChaptersFromText(sampleText, sampleTokens);
-      setChapters(detectedChapters);
-
-      // Create document and session in IndexedDB
-      const doc = await createDocument('Pasted Text', sampleText, 'paste');
-      setCurrentDocumentId(doc.id);
-
-      const session = await createSession(doc.id);
-      setCurrentSessionId(session.id);
-      setPreviousIndex(0);
-    };
-
-    initDocument();
-  }, [sampleText]);
+    playback.setRamp(speedRamp ?? null);
+  }, [playback, speedRamp]);
 
-  // Simple chapter detection (will be replaced by document-store in Phase 3)
-  const detectChaptersFromText = (text: string, tokens: Token[]): Chapter[] => {
-    const chapters: Chapter[] = [];
-
-    // Try to detect markdown-style headings
-    const headingRegex = /^(#{1,3})\s+(.+)$/gm;
-    let match;
-    const headings: Array<{ index: number; title: string; level: number }> = [];
+  // Timing telemetry is polled while playing rather than pushed every frame
+  const [timingStats, setTimingStats] = useState<PlaybackTimingStats | null>(null);
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => setTimingStats(playback.getTimingStats()), TIMING_POLL_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, playback]);
+
+  // Adaptive speed: adjusts playback while enabled; each change is shown
+  // briefly in reading mode and logged in the session
+  const adaptiveWpm = settings?.adaptiveWpm;
+  const [speedNotice, setSpeedNotice] = useState<SpeedChange | null>(null);
+  // One instance per controller, so its rewind and streak history survives
+  // session and chunking changes; settings and the handler are swapped in
+  const adaptiveRef = useRef<AdaptiveSpeed | null>(null);
+  const onSpeedChangeRef = useRef<(change: SpeedChange) => void>(() => {});
+  useEffect(() => {
+    const adaptive = new AdaptiveSpeed(playback, DEFAULT_SETTINGS.adaptiveWpm, (change) => onSpeedChangeRef.current(change));
+    adaptiveRef.current = adaptive;
+    return () => {
+      adaptive.dispose();
+      adaptiveRef.current = null;
+    };
+  }, [playback]);
+  useEffect(() => {
+    adaptiveRef.current?.setSettings(adaptiveWpm ?? DEFAULT_SETTINGS.adaptiveWpm);
+  }, [playback, adaptiveWpm]);
+  useEffect(() => {
+    onSpeedChangeRef.current = (change) => {
+      const logged = { ...change, tokenIndex: wordOffsets[change.tokenIndex] ?? change.tokenIndex };
+      setSpeedNotice(logged);
+      if (currentSessionId) logSpeedChange(currentSessionId, logged);
+    };
+  }, [currentSessionId, wordOffsets]);
 
-    while ((match = headingRegex.exec(text)) !== null) {
-      const level = match[1].length;
-      const title = match[2].trim();
-      // Estimate token index (rough approximation)
-      const index = text.substring(0, match.index).split(/\s+/).length;
-      headings.push({ index, title, level });
-    }
+  useEffect(() => {
+    if (!speedNotice) return;
+    const timer = window.setTimeout(() => setSpeedNotice(null), 3000);
+    return () => clearTimeout(timer);
+  }, [speedNotice]);
+
+  // Tables, figures and display math are pulled out of the pasted text;
+  // stored documents already hold the extracted text and blocks
+  const pasted = useMemo(() => extractFromPaste(sampleText), [sampleText]);
+  const extracted = useMemo<ExtractedContent>(
+    () => openedDocument ? { text: openedDocument.canonicalText, blocks: openedDocument.blocks ?? [] } : pasted,
+    [openedDocument, pasted]
+  );
 
-    if (headings.length > 0) {
-      // Create chapters from headings
-      for (let i = 0; i < headings.length; i++) {
-        const start = headings[i].index;
-        const end = i < headings.length - 1 ? headings[i + 1].index : tokens.length;
-
-        chapters.push({
-          id: uuidv4(),
-          title: headings[i].title,
-          startTokenIndex: start,
-          endTokenIndex: end,
-        });
-      }
+  // Re-tokenize when the text, pause profile, chunking, language or non-linear settings change
+  const pauseProfileKey = settings?.pauseProfile;
+  const pauseValues = useMemo(
+    () => resolvePauseProfile(pauseProfileKey, pauseProfiles),
+    [pauseProfileKey, pauseProfiles]
+  );
+  const chunking = settings?.chunking;
+  const nonLinear = settings?.nonLinearPolicy;
+  const languageOverride = settings?.language && settings.language !== 'auto' ? settings.language : undefined;
+  const language = useMemo(
+    () => detectLanguage(extracted.text, languageOverride),
+    [extracted, languageOverride]
+  );
+  const lastSourceRef = useRef<ExtractedContent | null>(null);
+  useEffect(() => {
+    const options = { language, blocks: extracted.blocks, nonLinear };
+    const frameTokens = tokenize(extracted.text, pauseValues, { ...options, chunking });
+    const isSameText = lastSourceRef.current === extracted;
+    lastSourceRef.current = extracted;
+
+    if (isSameText) {
+      // Same text, new settings: keep the reading position via its character offset
+      const { tokens: previousTokens, index } = playback.getState();
+      const token = previousTokens[index];
+      playback.setTokens(frameTokens, token ? tokenIndexAtOffset(frameTokens, token.start) : 0);
     } else {
-      // No headings found - segment by word count (~1000 words per chapter)
-      const wordsPerChapter = 1000;
-      let chapterIndex = 0;
-
-      while (chapterIndex * wordsPerChapter < tokens.length) {
-        const start = chapterIndex * wordsPerChapter;
-        const end = Math.min((chapterIndex + 1) * wordsPerChapter, tokens.length);
-
-        chapters.push({
-          id: uuidv4(),
-          title: `Section ${chapterIndex + 1}`,
-          startTokenIndex: start,
-          endTokenIndex: end,
-        });
-
-        chapterIndex++;
-      }
+      playback.pause();
+      playback.setTokens(frameTokens, tokenIndexForWord(buildWordOffsets(frameTokens), startWordRef.current));
+      startWordRef.current = 0;
     }
+  }, [playback, extracted, pauseValues, chunking, language, nonLinear]);
 
-    return chapters.length > 0 ? chapters : [
-      {
-        id: uuidv4(),
-        title: 'Full Text',
-        startTokenIndex: 0,
-        endTokenIndex: tokens.length,
-      },
-    ];
-  };
-
-  // Clean playback loop with proper timer management
+  // The extension overlay tokenizes with the same pause profile and non-linear policy
   useEffect(() => {
-    // Clear any existing timer first
-    if (timerRef.current !== null) {
-      clearTimeout(timerRef.current);
-      timerRef.current = null;
-    }
-
-    // Don't schedule if not playing, no tokens, or already complete
-    if (!isPlaying || tokens.length === 0 || isComplete) {
-      return;
-    }
-
-    // Check if we've reached the end
-    if (currentIndex >= tokens.length - 1) {
-      // Show the last word, then mark complete
-      const token = tokens[currentIndex];
-      const baseMs = 60000 / wpm;
-      const delay = baseMs * (1 + token.pauseMultiplier);
-      
-      timerRef.current = window.setTimeout(() => {
-        setIsPlaying(false);
-        setIsComplete(true);
-      }, delay);
-      return;
-    }
-
-    // Normal playback: advance to next word
-    const token = tokens[currentIndex];
-    const baseMs = 60000 / wpm;
-    const delay = baseMs * (1 + token.pauseMultiplier);
-
-    timerRef.current = window.setTimeout(() => {
-      setCurrentIndex((prev) => prev + 1);
-    }, delay);
-
-    // Cleanup on unmount or dependency change
+    if (!nonLinear) return;
+    // Storage rejects once the extension context is gone; the overlay keeps the last saved settings
+    saveReaderSettings({ pauseProfile: pauseValues, nonLinearPolicy: nonLinear }).catch(() => {});
+  }, [pauseValues, nonLinear]);
+
+  // Chapter boundaries are found on the frames being played; a stored
+  // document's chapters count single words and are mapped onto frames
+  const chapters = useMemo(() => {
+    if (!openedDocument) return detectChapters(extracted.text, tokens, extracted.headings);
+    return openedDocument.chapters.map((ch) => ({
+      ...ch,
+      startTokenIndex: tokenIndexForWord(wordOffsets, ch.startTokenIndex),
+      endTokenIndex: ch.endTokenIndex >= openedDocument.totalTokens
+        ? tokens.length
+        : tokenIndexForWord(wordOffsets, ch.endTokenIndex),
+    }));
+  }, [openedDocument, extracted, tokens, wordOffsets]);
+
+  // Reading heatmap: hotspots from every session of this document, loaded
+  // when reading mode opens
+  const heatmapOn = settings?.heatmapOn ?? false;
+  const [documentEvents, setDocumentEvents] = useState<ReadingEvent[] | null>(null);
+  useEffect(() => {
+    if (!isInReadingMode || !heatmapOn || !currentDocumentId) return;
+    let cancelled = false;
+    getDocumentEvents(currentDocumentId).then((events) => {
+      if (!cancelled) setDocumentEvents(events);
+    });
     return () => {
-      if (timerRef.current !== null) {
-        clearTimeout(timerRef.current);
-        timerRef.current = null;
-      }
+      cancelled = true;
     };
-  }, [isPlaying, currentIndex, tokens, wpm, isComplete]);
+  }, [isInReadingMode, heatmapOn, currentDocumentId]);
+  const heatmap = useMemo(
+    () => (heatmapOn && documentEvents ? buildReadingHeatmap(documentEvents, totalWords) : undefined),
+    [heatmapOn, documentEvents, totalWords]
+  );
 
-  // Track WPM history for best sustained 60s calculation
+  // Record the session's reading events; its stats are derived from them
   useEffect(() => {
-    wpmHistory.current.push({ timestamp: Date.now(), wpm });
-
-    // Clean old entries (> 60s ago)
-    const cutoff = Date.now() - 60000;
-    wpmHistory.current = wpmHistory.current.filter(e => e.timestamp > cutoff);
-  }, [wpm]);
+    if (!currentSessionId) return;
+    const recorder = createEventRecorder(playback, currentSessionId);
+    recorderRef.current = recorder;
+    return () => {
+      if (recorderRef.current === recorder) recorderRef.current = null;
+      // A failed write leaves the events pending; nothing is left to retry them
+      recorder.dispose().catch(() => {});
+    };
+  }, [playback, currentSessionId]);
 
   // Auto-save every 3 seconds during playback
   useEffect(() => {
     if (!currentSessionId || !currentDocumentId || !isPlaying) return;
 
     const interval = setInterval(async () => {
-      if (currentSessionId && currentDocumentId) {
-        const isRewind = currentIndex < previousIndex;
-
-        await updateSessionProgress(
-          currentSessionId,
-          currentIndex,
-          wpm,
-          false, // Pauses tracked separately
-          isRewind
-        );
-
-        await updateDocumentPosition(currentDocumentId, currentIndex);
-        setPreviousIndex(currentIndex);
-      }
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      // Stored positions are word indices, independent of chunking
+      const wordIndex = wordOffsets[playback.getState().index];
+
+      // A failed write leaves the events pending; progress is saved regardless
+      await recorder.flush().catch(() => {});
+      const events = await getSessionEvents(currentSessionId);
+      await updateSessionProgress(currentSessionId, wordIndex, wpm, deriveReadingStats(events));
+      await updateDocumentPosition(currentDocumentId, wordIndex);
     }, 3000);
 
     return () => clearInterval(interval);
-  }, [currentSessionId, currentDocumentId, isPlaying, currentIndex, wpm, previousIndex]);
+  }, [playback, currentSessionId, currentDocumentId, isPlaying, wpm, wordOffsets]);
 
-  // Track pauses
+  // Save progress when playback pauses
   useEffect(() => {
-    if (!currentSessionId || previousIndex === currentIndex) return;
-
-    const wasPlaying = previousIndex !== currentIndex && !isComplete;
-    const nowPaused = !isPlaying && wasPlaying;
-
-    if (nowPaused && currentSessionId) {
-      updateSessionProgress(currentSessionId, currentIndex, wpm, true, false);
-    }
-  }, [isPlaying, currentIndex, previousIndex, currentSessionId, isComplete, wpm]);
+    const recorder = recorderRef.current;
+    if (!currentSessionId || isPlaying || isComplete || !recorder) return;
+    if (!recorder.hasEvents()) return;
+
+    const wordIndex = wordOffsets[playback.getState().index];
+    const save = async () => {
+      await recorder.flush().catch(() => {});
+      const events = await getSessionEvents(currentSessionId);
+      await updateSessionProgress(currentSessionId, wordIndex, wpm, deriveReadingStats(events));
+    };
+    save();
+  }, [playback, isPlaying, currentSessionId, isComplete, wpm, wordOffsets]);
 
   // Handle session completion
   useEffect(() => {
     if (!currentSessionId || !isComplete) return;
 
     const finalize = async () => {
-      // Calculate best sustained 60s WPM
-      let bestSustainedWPM = wpm;
-      if (wpmHistory.current.length > 1) {
-        let maxAvgWPM = 0;
-        const windowMs = 60000;
-
-        for (let i = 0; i < wpmHistory.current.length; i++) {
-          const start = wpmHistory.current[i].timestamp;
-          const windowEntries = wpmHistory.current.filter(e =>
-            e.timestamp >= start && e.timestamp <= start + windowMs
-          );
-
-          if (windowEntries.length > 1) {
-            const avgWPM = windowEntries.reduce((sum, e) => sum + e.wpm, 0) / windowEntries.length;
-            maxAvgWPM = Math.max(maxAvgWPM, avgWPM);
-          }
-        }
-
-        bestSustainedWPM = Math.round(maxAvgWPM);
-      }
+      const recorder = recorderRef.current;
+      await recorder?.flush().catch(() => {});
+      const events = await getSessionEvents(currentSessionId);
 
-      await finalizeSession(currentSessionId, bestSustainedWPM, tokens.length);
-      await updateDocumentPosition(currentDocumentId!, tokens.length);
+      await finalizeSession(currentSessionId, totalWords, deriveReadingStats(events));
+      await updateDocumentPosition(currentDocumentId!, totalWords);
 
       // Get the finalized session for display
       const finalized = await db.sessions.get(currentSessionId);
@@ -621,54 +983,152 @@ function App() {
     };
 
     finalize();
-  }, [currentSessionId, isComplete, tokens.length, currentDocumentId]);
+  }, [currentSessionId, isComplete, totalWords, currentDocumentId]);
 
   const handlePlayPause = useCallback(() => {
-    if (isPlaying) {
-      setIsPlaying(false);
-    } else if (!isComplete && currentIndex < tokens.length) {
-      setIsPlaying(true);
-    }
-  }, [isPlaying, isComplete, currentIndex, tokens.length]);
+    playback.toggle();
+  }, [playback]);
 
   const handleRestart = useCallback(() => {
-    setCurrentIndex(0);
-    setIsPlaying(false);
-    setIsComplete(false);
+    playback.restart();
+  }, [playback]);
+
+  const handleSkip = useCallback((target: NavigationTarget) => {
+    const { index } = playback.getState();
+    const next = resolveNavigationTarget(tokens, chapters, index, target);
+    // Seeking clears the complete state, so a forward skip that can't move leaves it alone
+    if (isBackwardTarget(target) || next !== index) {
+      playback.seek(next);
+    }
+  }, [playback, tokens, chapters]);
+
+  const handleJump = useCallback((index: number) => {
+    playback.seek(index);
+  }, [playback]);
+
+  const handleWpmChange = useCallback((next: number) => {
+    playback.setWpm(next);
+  }, [playback]);
+
+  const handleChunkingChange = useCallback(async (updates: Partial<ChunkSettings>) => {
+    if (!settings) return;
+    const next = { ...settings.chunking, ...updates };
+    await updateSettings({ chunking: next });
+    setSettings(prev => prev ? { ...prev, chunking: next } : prev);
+  }, [settings]);
+
+  const handleSpeedRampChange = useCallback(async (updates: Partial<SpeedRamp>) => {
+    if (!settings) return;
+    const next = { ...settings.speedRamp, ...updates };
+    await updateSettings({ speedRamp: next });
+    setSettings(prev => prev ? { ...prev, speedRamp: next } : prev);
+  }, [settings]);
+
+  const handleAdaptiveWpmChange = useCallback(async (updates: Partial<AdaptiveWpmSettings>) => {
+    if (!settings) return;
+    const next = { ...settings.adaptiveWpm, ...updates };
+    await updateSettings({ adaptiveWpm: next });
+    setSettings(prev => prev ? { ...prev, adaptiveWpm: next } : prev);
+  }, [settings]);
+
+  const handleNonLinearChange = useCallback(async (updates: Partial<NonLinearPolicy>) => {
+    if (!settings) return;
+    const next = { ...settings.nonLinearPolicy, ...updates };
+    await updateSettings({ nonLinearPolicy: next });
+    setSettings(prev => prev ? { ...prev, nonLinearPolicy: next } : prev);
+  }, [settings]);
+
+  const handlePauseProfileSelect = useCallback(async (pauseProfile: string) => {
+    await updateSettings({ pauseProfile });
+    setSettings(prev => prev ? { ...prev, pauseProfile } : prev);
   }, []);
 
-  const handleSkip = useCallback((delta: number) => {
-    setCurrentIndex((prev) => Math.max(0, Math.min(tokens.length - 1, prev + delta)));
-    // If we were complete and skip back, we're no longer complete
-    if (delta < 0 && isComplete) {
-      setIsComplete(false);
-    }
-  }, [tokens.length, isComplete]);
+  const handlePauseProfileCreate = useCallback(async (name: string, values: PauseProfile) => {
+    const profile = await createPauseProfile(name, values);
+    setPauseProfiles(prev => [...prev, profile]);
+    await handlePauseProfileSelect(profile.id);
+  }, [handlePauseProfileSelect]);
+
+  const handlePauseProfileUpdate = useCallback(async (
+    id: string,
+    updates: Pick<CustomPauseProfile, 'name' | 'values'>
+  ) => {
+    await updatePauseProfile(id, updates);
+    setPauseProfiles(prev => prev.map(p => p.id === id ? { ...p, ...updates, updatedAt: new Date() } : p));
+  }, []);
 
-  const handleEnterReadingMode = useCallback(() => {
+  const handlePauseProfileDelete = useCallback(async (id: string) => {
+    await deletePauseProfile(id);
+    setPauseProfiles(prev => prev.filter(p => p.id !== id));
+    setSettings(prev => prev && prev.pauseProfile === id ? { ...prev, pauseProfile: 'normal' } : prev);
+  }, []);
+
+  // Documents and sessions are only stored once reading starts
+  const startReading = useCallback(async (doc: Document) => {
+    const session = await createSession(doc.id);
+    setCompletedSession(null);
+    setCurrentDocumentId(doc.id);
+    setCurrentSessionId(session.id);
     setIsInReadingMode(true);
   }, []);
 
+  // Pasted text that was read before reopens its document at its saved
+  // position, with the resume prompt offering to start elsewhere
+  const handleEnterReadingMode = useCallback(async () => {
+    const doc = await createDocument('Pasted Text', extracted.text, 'paste', {
+      blocks: extracted.blocks,
+      headings: extracted.headings,
+    });
+    const canResume = hasResumePosition(doc);
+    if (canResume) {
+      playback.seek(tokenIndexForWord(wordOffsets, doc.lastPosition.tokenIndex));
+    }
+    setResumeWord(canResume ? doc.lastPosition.tokenIndex : null);
+    await startReading(doc);
+  }, [playback, extracted, wordOffsets, startReading]);
+
+  // Library documents open in reading mode the same way; finished ones start over
+  const handleOpenDocument = useCallback(async (doc: Document) => {
+    const canResume = hasResumePosition(doc);
+    startWordRef.current = canResume ? doc.lastPosition.tokenIndex : 0;
+    setResumeWord(canResume ? doc.lastPosition.tokenIndex : null);
+    setOpenedDocument(doc);
+    await startReading(doc);
+  }, [startReading]);
+
+  // Playing from anywhere answers the resume prompt
+  useEffect(() => playback.on('play', () => setResumeWord(null)), [playback]);
+
+  const handleResumeDismiss = useCallback(() => {
+    setResumeWord(null);
+  }, []);
+
+  const handleNavigate = useCallback((next: AppView) => {
+    // The reader view edits pasted text
+    if (next === 'reader') setOpenedDocument(null);
+    setView(next);
+  }, []);
+
   const handleExitReadingMode = useCallback(() => {
     setIsInReadingMode(false);
-    setIsPlaying(false);
-  }, []);
+    playback.pause();
+  }, [playback]);
 
   // Scrub handlers
   const handleScrubStart = useCallback(() => {
-    setWasPlayingBeforeScrub(isPlaying);
-    setIsPlaying(false);
-  }, [isPlaying]);
+    setWasPlayingBeforeScrub(playback.getState().isPlaying);
+    playback.pause();
+  }, [playback]);
 
   const handleScrubMove = useCallback((index: number) => {
-    setCurrentIndex(index);
-  }, []);
+    playback.seek(index);
+  }, [playback]);
 
   const handleScrubEnd = useCallback(() => {
     if (wasPlayingBeforeScrub) {
-      setIsPlaying(true);
+      playback.play();
     }
-  }, [wasPlayingBeforeScrub]);
+  }, [playback, wasPlayingBeforeScrub]);
 
   // Show reading mode overlay when active
   if (isInReadingMode) {
@@ -680,12 +1140,24 @@ function App() {
         isPlaying={isPlaying}
         isComplete={isComplete}
         wpm={wpm}
+        effectiveWpm={effectiveWpm}
+        timeline={timeline}
+        timingStats={timingStats}
         fontSize={settings?.fontSize || 'M'}
+        direction={isRTLLanguage(language) ? 'rtl' : 'ltr'}
+        theme={settings?.theme || 'dark'}
+        guidesOn={settings?.guidesOn ?? true}
+        heatmap={heatmap}
+        countdownSeconds={settings?.countdownSeconds ?? 0}
+        speedNotice={speedNotice}
         completedSession={completedSession}
+        resumeIndex={resumeWord !== null ? tokenIndexForWord(wordOffsets, resumeWord) : null}
+        onResumeDismiss={handleResumeDismiss}
         onPlayPause={handlePlayPause}
         onRestart={handleRestart}
         onSkip={handleSkip}
-        onWpmChange={setWpm}
+        onJump={handleJump}
+        onWpmChange={handleWpmChange}
         onScrubStart={handleScrubStart}
         onScrubMove={handleScrubMove}
         onScrubEnd={handleScrubEnd}
@@ -695,8 +1167,16 @@ function App() {
   }
 
   // Show app shell with content
+  if (view === 'library') {
+    return (
+      <AppShell view={view} onNavigate={handleNavigate}>
+        <Library wpm={wpm} onOpen={handleOpenDocument} />
+      </AppShell>
+    );
+  }
+
   return (
-    <AppShell>
+    <AppShell view={view} onNavigate={handleNavigate}>
       {/* Welcome / Demo section - Phase 1 */}
       <div className="mb-12">
         <h2 className="text-3xl font-semibold mb-3">Speed Reading Demo</h2>
@@ -715,17 +1195,15 @@ function App() {
           value={sampleText}
           onChange={(e) => {
             setSampleText(e.target.value);
-            setCurrentIndex(0);
-            setIsPlaying(false);
-            setTokens(tokenize(e.target.value));
+            playback.pause();
           }}
           className="w-full h-40 bg-zinc-950/50 border border-zinc-800 rounded-lg p-4 text-zinc-300 placeholder-zinc-600 resize-none focus:outline-none focus:border-zinc-700 transition-colors"
           placeholder="Paste your text here..."
         />
         <div className="flex items-center justify-between mt-4">
           <div className="text-sm text-zinc-500">
-            {tokens.length} words · ~{(() => {
-              const seconds = (tokens.length / wpm) * 60;
+            {totalWords} words · {LANGUAGE_NAMES[primaryLanguage(language)] ?? language} · ~{(() => {
+              const seconds = readingTimeMs / 1000;
               if (seconds < 60) return `${Math.round(seconds)} sec`;
               return `${Math.round(seconds / 60)} min`;
             })()} at {wpm} WPM
@@ -740,6 +1218,8 @@ function App() {
         </div>
       </div>
 
+      <FileImport onOpen={handleOpenDocument} />
+
       {/* Quick settings - Phase 1 */}
       <div className="grid grid-cols-2 gap-4">
         {/* WPM Control */}
@@ -747,14 +1227,14 @@ function App() {
           <div className="text-zinc-500 text-sm mb-2">Starting Speed</div>
           <div className="flex items-center gap-3">
             <button
-              onClick={() => setWpm(Math.max(100, wpm - 50))}
+              onClick={() => handleWpmChange(Math.max(100, wpm - 50))}
               className="w-8 h-8 rounded-full bg-zinc-800/50 hover:bg-zinc-700/50 border border-zinc-700/50 text-zinc-400 hover:text-white transition-colors flex items-center justify-center text-lg"
             >
               −
             </button>
             <div className="text-2xl font-light flex-1 text-center">{wpm}</div>
             <button
-              onClick={() => setWpm(Math.min(900, wpm + 50))}
+              onClick={() => handleWpmChange(Math.min(900, wpm + 50))}
               className="w-8 h-8 rounded-full bg-zinc-800/50 hover:bg-zinc-700/50 border border-zinc-700/50 text-zinc-400 hover:text-white transition-colors flex items-center justify-center text-lg"
             >
               +
@@ -785,16 +1265,338 @@ function App() {
             ))}
           </div>
         </div>
+
+        {/* Pause Profile Control */}
+        <div className="bg-zinc-900/30 border border-zinc-800/50 rounded-lg p-4 col-span-2">
+          <div className="text-zinc-500 text-sm mb-2">Pause Profile</div>
+          <PauseProfileEditor
+            profiles={pauseProfiles}
+            activeKey={settings?.pauseProfile || 'normal'}
+            wpm={wpm}
+            onSelect={handlePauseProfileSelect}
+            onCreate={handlePauseProfileCreate}
+            onUpdate={handlePauseProfileUpdate}
+            onDelete={handlePauseProfileDelete}
+          />
+        </div>
+
+        {/* Countdown Control */}
+        <div className="bg-zinc-900/30 border border-zinc-800/50 rounded-lg p-4">
+          <div className="text-zinc-500 text-sm mb-2">Countdown</div>
+          <div className="flex items-center justify-center gap-1">
+            {([0, 3, 5] as const).map((seconds) => (
+              <button
+                key={seconds}
+                onClick={async () => {
+                  await updateSettings({ countdownSeconds: seconds });
+                  setSettings(prev => prev ? { ...prev, countdownSeconds: seconds } : prev);
+                }}
+                className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                  (settings?.countdownSeconds ?? 0) === seconds
+                    ? 'bg-amber-600/80 text-white'
+                    : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50'
+                }`}
+              >
+                {seconds === 0 ? 'Off' : `${seconds}s`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Appearance Control */}
+        <div className="bg-zinc-900/30 border border-zinc-800/50 rounded-lg p-4">
+          <div className="text-zinc-500 text-sm mb-2">Reading Theme</div>
+          <div className="flex items-center justify-center gap-1">
+            {(['dark', 'light'] as const).map((theme) => (
+              <button
+                key={theme}
+                onClick={async () => {
+                  await updateSettings({ theme });
+                  setSettings(prev => prev ? { ...prev, theme } : prev);
+                }}
+                className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                  (settings?.theme || 'dark') === theme
+                    ? 'bg-amber-600/80 text-white'
+                    : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50'
+                }`}
+              >
+                {theme === 'dark' ? 'Dark' : 'Light'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-center gap-2 text-sm text-zinc-400 mt-3">
+            <input
+              type="checkbox"
+              checked={settings?.guidesOn ?? true}
+              onChange={async (e) => {
+                const guidesOn = e.target.checked;
+                await updateSettings({ guidesOn });
+                setSettings(prev => prev ? { ...prev, guidesOn } : prev);
+              }}
+              className="accent-amber-600"
+            />
+            Focus guides
+          </label>
+          <label className="flex items-center justify-center gap-2 text-sm text-zinc-400 mt-2">
+            <input
+              type="checkbox"
+              checked={settings?.heatmapOn ?? false}
+              onChange={async (e) => {
+                const heatmapOn = e.target.checked;
+                await updateSettings({ heatmapOn });
+                setSettings(prev => prev ? { ...prev, heatmapOn } : prev);
+              }}
+              className="accent-amber-600"
+            />
+            Reading heatmap
+          </label>
+        </div>
+
+        {/* Language Control */}
+        <div className="bg-zinc-900/30 border border-zinc-800/50 rounded-lg p-4 col-span-2">
+          <div className="text-zinc-500 text-sm mb-2">Language</div>
+          <div className="flex flex-wrap items-center justify-center gap-1">
+            {(['auto', ...Object.keys(LANGUAGE_NAMES)]).map((code) => (
+              <button
+                key={code}
+                onClick={async () => {
+                  await updateSettings({ language: code });
+                  setSettings(prev => prev ? { ...prev, language: code } : prev);
+                }}
+                className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                  (settings?.language || 'auto') === code
+                    ? 'bg-amber-600/80 text-white'
+                    : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50'
+                }`}
+              >
+                {code === 'auto' ? 'Auto' : LANGUAGE_NAMES[code]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Chunk Control */}
+        <div className="bg-zinc-900/30 border border-zinc-800/50 rounded-lg p-4 col-span-2">
+          <div className="text-zinc-500 text-sm mb-2">Words per Frame</div>
+          <div className="flex flex-wrap items-center justify-center gap-4">
+            <div className="flex items-center gap-1">
+              {([1, 2, 3, 4] as const).map((size) => (
+                <button
+                  key={size}
+                  onClick={() => handleChunkingChange({ size })}
+                  className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                    (chunking?.size ?? 1) === size
+                      ? 'bg-amber-600/80 text-white'
+                      : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50'
+                  }`}
+                >
+                  {size}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-zinc-400">
+              Max chars
+              <input
+                type="number"
+                min="6"
+                max="40"
+                value={chunking?.maxChars ?? 16}
+                onChange={(e) => {
+                  const maxChars = parseInt(e.target.value, 10);
+                  if (maxChars > 0) handleChunkingChange({ maxChars });
+                }}
+                disabled={(chunking?.size ?? 1) === 1}
+                className="w-16 bg-zinc-950/50 border border-zinc-800 rounded px-2 py-1 text-zinc-300 text-center disabled:opacity-40"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-zinc-400">
+              <input
+                type="checkbox"
+                checked={chunking?.crossPunctuation ?? false}
+                onChange={(e) => handleChunkingChange({ crossPunctuation: e.target.checked })}
+                disabled={(chunking?.size ?? 1) === 1}
+                className="accent-amber-600"
+              />
+              Cross punctuation
+            </label>
+          </div>
+        </div>
+
+        {/* Warm-up Ramp Control */}
+        <div className="bg-zinc-900/30 border border-zinc-800/50 rounded-lg p-4 col-span-2">
+          <div className="text-zinc-500 text-sm mb-2">Warm-up Ramp</div>
+          <div className="flex flex-wrap items-center justify-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-zinc-400">
+              <input
+                type="checkbox"
+                checked={speedRamp?.enabled ?? false}
+                onChange={(e) => handleSpeedRampChange({ enabled: e.target.checked })}
+                className="accent-amber-600"
+              />
+              Ease into speed on play
+            </label>
+            <div className="flex items-center gap-1">
+              {[0.5, 0.6, 0.8].map((startFraction) => (
+                <button
+                  key={startFraction}
+                  onClick={() => handleSpeedRampChange({ startFraction })}
+                  disabled={!speedRamp?.enabled}
+                  className={`px-3 py-1.5 rounded text-sm font-medium transition-colors disabled:opacity-40 ${
+                    speedRamp?.startFraction === startFraction
+                      ? 'bg-amber-600/80 text-white'
+                      : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50'
+                  }`}
+                >
+                  from {Math.round(startFraction * 100)}%
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              {(['seconds', 'words'] as const).map((unit) => (
+                <button
+                  key={unit}
+                  onClick={() => handleSpeedRampChange({ unit })}
+                  disabled={!speedRamp?.enabled}
+                  className={`px-3 py-1.5 rounded text-sm font-medium transition-colors disabled:opacity-40 ${
+                    (speedRamp?.unit ?? 'seconds') === unit
+                      ? 'bg-amber-600/80 text-white'
+                      : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50'
+                  }`}
+                >
+                  {unit === 'seconds' ? 'Seconds' : 'Words'}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-zinc-400">
+              Play
+              <input
+                type="number"
+                min="1"
+                max="60"
+                value={speedRamp?.length ?? 5}
+                onChange={(e) => {
+                  const length = parseInt(e.target.value, 10);
+                  if (length > 0) handleSpeedRampChange({ length });
+                }}
+                disabled={!speedRamp?.enabled}
+                className="w-16 bg-zinc-950/50 border border-zinc-800 rounded px-2 py-1 text-zinc-300 text-center disabled:opacity-40"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-zinc-400">
+              After seek
+              <input
+                type="number"
+                min="0"
+                max="60"
+                value={speedRamp?.seekLength ?? 2}
+                onChange={(e) => {
+                  const seekLength = parseInt(e.target.value, 10);
+                  if (seekLength >= 0) handleSpeedRampChange({ seekLength });
+                }}
+                disabled={!speedRamp?.enabled}
+                className="w-16 bg-zinc-950/50 border border-zinc-800 rounded px-2 py-1 text-zinc-300 text-center disabled:opacity-40"
+              />
+            </label>
+          </div>
+        </div>
+
+        {/* Adaptive Speed Control */}
+        <div className="bg-zinc-900/30 border border-zinc-800/50 rounded-lg p-4 col-span-2">
+          <div className="text-zinc-500 text-sm mb-2">Adaptive Speed</div>
+          <div className="flex flex-wrap items-center justify-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-zinc-400">
+              <input
+                type="checkbox"
+                checked={adaptiveWpm?.enabled ?? false}
+                onChange={(e) => handleAdaptiveWpmChange({ enabled: e.target.checked })}
+                className="accent-amber-600"
+              />
+              Slow down after rewinds, speed up on long stretches
+            </label>
+            {([
+              { key: 'floor', label: 'Floor', min: 100 },
+              { key: 'ceiling', label: 'Ceiling', min: 100 },
+              { key: 'step', label: 'Step', min: 5 },
+            ] as const).map(({ key, label, min }) => (
+              <label key={key} className="flex items-center gap-2 text-sm text-zinc-400">
+                {label}
+                <input
+                  type="number"
+                  min={min}
+                  max="900"
+                  step="5"
+                  value={adaptiveWpm?.[key] ?? 0}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (value >= min) handleAdaptiveWpmChange({ [key]: value });
+                  }}
+                  disabled={!adaptiveWpm?.enabled}
+                  className="w-20 bg-zinc-950/50 border border-zinc-800 rounded px-2 py-1 text-zinc-300 text-center disabled:opacity-40"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Tables, Figures & Equations */}
+        <div className="bg-zinc-900/30 border border-zinc-800/50 rounded-lg p-4 col-span-2">
+          <div className="text-zinc-500 text-sm mb-2">Tables, Figures &amp; Equations</div>
+          <div className="space-y-2">
+            {NON_LINEAR_KINDS.map(({ key, label, modes }) => (
+              <div key={key} className="flex items-center justify-between gap-2">
+                <span className="text-sm text-zinc-400">{label}</span>
+                <div className="flex items-center gap-1">
+                  {modes.map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => handleNonLinearChange({ [key]: mode } as Partial<NonLinearPolicy>)}
+                      className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                        nonLinear?.[key] === mode
+                          ? 'bg-amber-600/80 text-white'
+                          : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50'
+                      }`}
+                    >
+                      {NON_LINEAR_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center justify-center gap-4 pt-2">
+              <label className="flex items-center gap-2 text-sm text-zinc-400">
+                <input
+                  type="checkbox"
+                  checked={nonLinear?.showMarkers ?? true}
+                  onChange={(e) => handleNonLinearChange({ showMarkers: e.target.checked })}
+                  className="accent-amber-600"
+                />
+                Show markers when skipping
+              </label>
+              <label className="flex items-center gap-2 text-sm text-zinc-400">
+                Snapshot
+                <input
+                  type="number"
+                  min="300"
+                  max="10000"
+                  step="100"
+                  value={nonLinear?.snapshotMs ?? 1200}
+                  onChange={(e) => {
+                    const snapshotMs = parseInt(e.target.value, 10);
+                    if (snapshotMs > 0) handleNonLinearChange({ snapshotMs });
+                  }}
+                  className="w-20 bg-zinc-950/50 border border-zinc-800 rounded px-2 py-1 text-zinc-300 text-center"
+                />
+                ms
+              </label>
+            </div>
+          </div>
+        </div>
       </div>
 
       {/* Phase 2/3 placeholders - showing the structure */}
       <div className="mt-12 pt-8 border-t border-zinc-900">
         <h3 className="text-lg font-semibold mb-4 text-zinc-400">Coming Soon</h3>
-        <div className="grid grid-cols-2 gap-4">
-          <div className="bg-zinc-900/20 border border-dashed border-zinc-800 rounded-lg p-6 text-center">
-            <div className="text-zinc-600 text-sm">📚 Library View</div>
-            <div className="text-zinc-700 text-xs mt-1">Phase 2</div>
-          </div>
+        <div className="grid gap-4">
           <div className="bg-zinc-900/20 border border-dashed border-zinc-800 rounded-lg p-6 text-center">
             <div className="text-zinc-600 text-sm">📊 Stats & Training</div>
             <div className="text-zinc-700 text-xs mt-1">Phase 3</div>
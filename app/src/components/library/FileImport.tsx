@@ -0,0 +1,169 @@
+import React, { useState, useRef } from 'react';
+import type { Document } from '../../types';
+import { createDocument } from '../../lib/storage/document-store';
+import type { PdfContent } from '../../lib/extract/pdf';
+
+interface FileImportProps {
+  onOpen: (doc: Document) => void;
+}
+
+type ImportState =
+  | { status: 'idle' }
+  | { status: 'reading'; page: number; pageCount: number } // pageCount 0 until known
+  | { status: 'scanned'; title: string; content: PdfContent }
+  | { status: 'error'; message: string };
+
+/**
+ * "3, 7–9, 12"
+ */
+function formatPageRanges(pages: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const start = pages[i];
+    while (i + 1 < pages.length && pages[i + 1] === pages[i] + 1) i++;
+    ranges.push(start === pages[i] ? `${start}` : `${start}–${pages[i]}`);
+  }
+  return ranges.join(', ');
+}
+
+/**
+ * FileImport - drop or pick a local PDF or EPUB to read
+ *
+ * The extractors are loaded on first use. Documents open straight away
+ * unless some PDF pages were scanned images, which are reported first;
+ * like pasted text, nothing is stored until reading starts.
+ */
+export const FileImport: React.FC<FileImportProps> = ({ onOpen }) => {
+  const [state, setState] = useState<ImportState>({ status: 'idle' });
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const openPdf = async (title: string, content: PdfContent) => {
+    const doc = await createDocument(title, content.text, 'pdf', {
+      blocks: content.blocks,
+      headings: content.headings,
+    });
+    setState({ status: 'idle' });
+    onOpen(doc);
+  };
+
+  const importFile = async (file: File) => {
+    const isPdf = file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+    const isEpub = file.type === 'application/epub+zip' || /\.epub$/i.test(file.name);
+    if (!isPdf && !isEpub) {
+      setState({ status: 'error', message: `${file.name} is not a PDF or EPUB.` });
+      return;
+    }
+
+    setState({ status: 'reading', page: 0, pageCount: 0 });
+    try {
+      if (isEpub) {
+        const { extractFromEpub } = await import('../../lib/extract/epub');
+        const content = extractFromEpub(await file.arrayBuffer());
+        const title = content.title ?? file.name.replace(/\.epub$/i, '');
+        const doc = await createDocument(title, content.text, 'epub', {
+          blocks: content.blocks,
+          headings: content.headings,
+          author: content.author,
+          cover: content.cover,
+        });
+        setState({ status: 'idle' });
+        onOpen(doc);
+        return;
+      }
+
+      const { extractFromPdf } = await import('../../lib/extract/pdf');
+      const content = await extractFromPdf(await file.arrayBuffer(), (page, pageCount) =>
+        setState({ status: 'reading', page, pageCount })
+      );
+      const title = content.title ?? file.name.replace(/\.pdf$/i, '');
+
+      if (content.scannedPages.length > 0) {
+        setState({ status: 'scanned', title, content });
+      } else {
+        await openPdf(title, content);
+      }
+    } catch (error) {
+      setState({ status: 'error', message: error instanceof Error ? error.message : `Could not read ${file.name}.` });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) importFile(file);
+  };
+
+  const isReading = state.status === 'reading';
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6 mb-8">
+      <label className="block text-zinc-500 text-sm font-medium mb-3">
+        OR IMPORT A PDF OR EPUB
+      </label>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center gap-2 h-28 border border-dashed rounded-lg text-sm transition-colors ${
+          isDragging ? 'border-amber-500/70 bg-amber-500/5 text-zinc-300' : 'border-zinc-700 text-zinc-500'
+        }`}
+      >
+        {isReading ? (
+          <span>
+            {state.pageCount > 0 ? `Reading page ${state.page} of ${state.pageCount}…` : 'Opening file…'}
+          </span>
+        ) : (
+          <>
+            <span>Drop a PDF or EPUB here</span>
+            <button
+              onClick={() => inputRef.current?.click()}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50 transition-colors"
+            >
+              Choose file
+            </button>
+          </>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/pdf,.pdf,application/epub+zip,.epub"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) importFile(file);
+          }}
+        />
+      </div>
+
+      {state.status === 'error' && (
+        <div className="mt-4 text-sm text-red-400">{state.message}</div>
+      )}
+
+      {state.status === 'scanned' && (
+        <div className="mt-4 flex items-center justify-between gap-4">
+          <div className="text-sm text-zinc-400">
+            {state.content.scannedPages.length === 1 ? 'Page' : 'Pages'} {formatPageRanges(state.content.scannedPages)} of{' '}
+            {state.content.pageCount} {state.content.scannedPages.length === 1 ? 'has' : 'have'} no text layer (scanned
+            images) and {state.content.scannedPages.length === 1 ? 'was' : 'were'} skipped.
+          </div>
+          <button
+            onClick={() =>
+              openPdf(state.title, state.content).catch((error) =>
+                setState({ status: 'error', message: error instanceof Error ? error.message : 'Could not open this PDF.' })
+              )
+            }
+            className="px-4 py-2 rounded text-sm font-medium bg-amber-600/80 text-white hover:bg-amber-500/80 transition-colors shrink-0"
+          >
+            Start Reading
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Document } from '../../types';
+import {
+  getAllDocuments,
+  getInProgressDocuments,
+  getCompletedDocuments,
+  getDocumentsBySource,
+  deleteDocument,
+} from '../../lib/storage/document-store';
+import { formatTimeLeft } from '../../lib/rsvp/chapters';
+
+interface LibraryProps {
+  wpm: number; // Speed for the time-left estimates
+  onOpen: (doc: Document) => void;
+}
+
+export type LibraryFilter = 'all' | 'in-progress' | 'completed' | Document['sourceType'];
+export type LibrarySort = 'recent' | 'added' | 'title' | 'progress';
+
+const FILTERS: Array<{ key: LibraryFilter; label: string }> = [
+  { key: 'all', label: 'All' },
+  { key: 'in-progress', label: 'In progress' },
+  { key: 'completed', label: 'Completed' },
+  { key: 'web', label: 'Web' },
+  { key: 'paste', label: 'Paste' },
+  { key: 'pdf', label: 'PDF' },
+  { key: 'epub', label: 'EPUB' },
+];
+
+const SORTS: Array<{ key: LibrarySort; label: string }> = [
+  { key: 'recent', label: 'Last read' },
+  { key: 'added', label: 'Date added' },
+  { key: 'title', label: 'Title' },
+  { key: 'progress', label: 'Progress' },
+];
+
+const SOURCE_LABELS: Record<Document['sourceType'], string> = {
+  web: 'Web',
+  paste: 'Paste',
+  pdf: 'PDF',
+  epub: 'EPUB',
+};
+
+function loadDocuments(filter: LibraryFilter): Promise<Document[]> {
+  switch (filter) {
+    case 'all':
+      return getAllDocuments();
+    case 'in-progress':
+      return getInProgressDocuments();
+    case 'completed':
+      return getCompletedDocuments();
+    default:
+      return getDocumentsBySource(filter);
+  }
+}
+
+/**
+ * Fraction read, 0-1; positions and totals are both counted in words
+ */
+function documentProgress(doc: Document): number {
+  if (doc.completedAt) return 1;
+  return doc.totalTokens > 0 ? Math.min(1, doc.lastPosition.tokenIndex / doc.totalTokens) : 0;
+}
+
+function formatLastRead(date: Date): string {
+  const days = Math.floor((Date.now() - new Date(date).getTime()) / 86400000);
+  if (days < 1) return 'Today';
+  if (days === 1) return 'Yesterday';
+  if (days < 7) return `${days} days ago`;
+  return new Date(date).toLocaleDateString();
+}
+
+/**
+ * Library - every stored document with its progress
+ *
+ * Filters come straight from the document store; sorting happens here.
+ * Time left is words remaining at the current WPM, without pauses.
+ */
+export const Library: React.FC<LibraryProps> = ({ wpm, onOpen }) => {
+  const [filter, setFilter] = useState<LibraryFilter>('all');
+  const [sort, setSort] = useState<LibrarySort>('recent');
+  const [documents, setDocuments] = useState<Document[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDocuments(filter).then((docs) => {
+      if (!cancelled) setDocuments(docs);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [filter]);
+
+  const sorted = useMemo(() => {
+    if (!documents) return null;
+    const time = (date: Date) => new Date(date).getTime();
+    return [...documents].sort((a, b) => {
+      switch (sort) {
+        case 'recent':
+          return time(b.lastPosition.updatedAt) - time(a.lastPosition.updatedAt);
+        case 'added':
+          return time(b.createdAt) - time(a.createdAt);
+        case 'title':
+          return a.title.localeCompare(b.title);
+        case 'progress':
+          return documentProgress(b) - documentProgress(a);
+      }
+    });
+  }, [documents, sort]);
+
+  const handleDelete = async (id: string) => {
+    await deleteDocument(id);
+    setDocuments((prev) => prev && prev.filter((doc) => doc.id !== id));
+  };
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h2 className="text-3xl font-semibold mb-3">Library</h2>
+        <p className="text-zinc-400 max-w-2xl">
+          Everything you've started reading. Pick a document to continue where you left off.
+        </p>
+      </div>
+
+      {/* Filters and sort */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex flex-wrap gap-2">
+          {FILTERS.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setFilter(key)}
+              className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                filter === key
+                  ? 'bg-amber-600/80 text-white'
+                  : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-zinc-500">
+          Sort by
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as LibrarySort)}
+            className="bg-zinc-900 border border-zinc-700/50 rounded px-2 py-1.5 text-zinc-300 focus:outline-none focus:border-zinc-600"
+          >
+            {SORTS.map(({ key, label }) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Documents */}
+      {sorted === null ? (
+        <div className="text-zinc-600 text-sm">Loading…</div>
+      ) : sorted.length === 0 ? (
+        <div className="bg-zinc-900/30 border border-zinc-800/50 rounded-lg p-8 text-center text-zinc-500 text-sm">
+          {filter === 'all' ? 'No documents yet. Paste some text to start reading.' : 'No documents match this filter.'}
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {sorted.map((doc) => {
+            const progress = documentProgress(doc);
+            const wordsLeft = Math.max(0, doc.totalTokens - doc.lastPosition.tokenIndex);
+            return (
+              <li
+                key={doc.id}
+                className="group bg-zinc-900/30 border border-zinc-800/50 rounded-lg hover:border-zinc-700/50 transition-colors"
+              >
+                <div className="flex items-center gap-4 p-4">
+                  {doc.cover && (
+                    <img src={doc.cover} alt="" className="shrink-0 w-10 h-14 object-cover rounded-sm border border-zinc-800" />
+                  )}
+                  <button onClick={() => onOpen(doc)} className="flex-1 min-w-0 text-left">
+                    <div className="flex items-baseline gap-3">
+                      <span className="truncate text-zinc-200 group-hover:text-white font-medium">{doc.title}</span>
+                      <span className="shrink-0 px-1.5 py-0.5 rounded bg-zinc-800/70 text-zinc-500 text-[10px] uppercase tracking-wider">
+                        {SOURCE_LABELS[doc.sourceType]}
+                      </span>
+                    </div>
+                    {doc.author && <div className="truncate text-xs text-zinc-500 mt-0.5">{doc.author}</div>}
+                    <div className="flex items-center gap-3 mt-2">
+                      <div className="flex-1 h-1 bg-zinc-800 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-amber-600 to-red-500"
+                          style={{ width: `${progress * 100}%` }}
+                        />
+                      </div>
+                      <span className="shrink-0 w-10 text-right text-xs text-zinc-400">{Math.round(progress * 100)}%</span>
+                    </div>
+                    <div className="flex gap-3 mt-1.5 text-xs text-zinc-500">
+                      <span>{doc.completedAt ? 'Done ✓' : `${formatTimeLeft((wordsLeft / wpm) * 60000)} left`}</span>
+                      <span>·</span>
+                      <span>Last read {formatLastRead(doc.lastPosition.updatedAt)}</span>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(doc.id)}
+                    title="Delete document"
+                    className="shrink-0 px-3 py-1.5 rounded text-sm font-medium bg-zinc-800/50 text-zinc-400 hover:bg-red-900/40 hover:text-red-300 border border-zinc-700/50 transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
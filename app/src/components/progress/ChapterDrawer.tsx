@@ -0,0 +1,149 @@
+import React, { useRef } from 'react';
+import type { Chapter, Token, TextDirection, Theme } from '../../types';
+import type { PlaybackTimeline } from '../../lib/rsvp/playback';
+import { chapterStatuses, formatTimeLeft } from '../../lib/rsvp/chapters';
+
+interface ChapterDrawerProps {
+  chapters: Chapter[];
+  tokens: Token[];
+  currentIndex: number;
+  timeline: PlaybackTimeline; // simulatePlayback(tokens, wpm)
+  isComplete: boolean;
+  direction?: TextDirection;
+  theme?: Theme;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const DRAWER_THEMES = {
+  dark: {
+    panel: 'bg-zinc-950/90 border-white/10',
+    title: 'text-zinc-500',
+    row: 'text-zinc-300 hover:bg-white/5 focus:bg-white/5',
+    current: 'bg-amber-500/10 text-white',
+    done: 'text-zinc-500',
+    meta: 'text-zinc-500',
+    track: 'bg-white/10',
+  },
+  light: {
+    panel: 'bg-white/90 border-black/10',
+    title: 'text-zinc-500',
+    row: 'text-zinc-700 hover:bg-black/5 focus:bg-black/5',
+    current: 'bg-amber-500/15 text-zinc-900',
+    done: 'text-zinc-400',
+    meta: 'text-zinc-500',
+    track: 'bg-black/10',
+  },
+} as const;
+
+/**
+ * ChapterDrawer - table of contents for reading mode
+ *
+ * Each row shows the chapter's progress and time left at the current WPM;
+ * clicking a row jumps to the chapter start. ↑/↓, Home and End move
+ * between rows, Enter jumps, Escape closes. Sections are indented under
+ * their chapter; opens on the innermost current one.
+ */
+export const ChapterDrawer: React.FC<ChapterDrawerProps> = ({
+  chapters,
+  tokens,
+  currentIndex,
+  timeline,
+  isComplete,
+  direction = 'ltr',
+  theme = 'dark',
+  onJump,
+  onClose,
+}) => {
+  const colors = DRAWER_THEMES[theme];
+  const rowRefs = useRef<Array<HTMLButtonElement | null>>([]);
+  const statuses = chapterStatuses(chapters, tokens, currentIndex, timeline, isComplete);
+  // Innermost current row: a Part and its current Chapter are both current
+  let currentRow = 0;
+  statuses.forEach((status, i) => {
+    if (status.isCurrent) currentRow = i;
+  });
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const focused = rowRefs.current.findIndex((row) => row === document.activeElement);
+    const focusRow = (row: number) => {
+      rowRefs.current[Math.max(0, Math.min(statuses.length - 1, row))]?.focus();
+    };
+
+    // Keys stay in the drawer rather than reaching the reader's shortcuts
+    e.stopPropagation();
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        focusRow(focused + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        focusRow(focused - 1);
+        break;
+      case 'Home':
+        e.preventDefault();
+        focusRow(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        focusRow(statuses.length - 1);
+        break;
+      case 'Escape':
+      case 't':
+      case 'T':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <nav
+      dir={direction}
+      aria-label="Chapters"
+      onKeyDown={handleKeyDown}
+      className={`absolute top-0 bottom-0 start-0 z-30 w-80 max-w-[85vw] flex flex-col border-e backdrop-blur-xl shadow-2xl ${colors.panel}`}
+    >
+      <div className="flex items-center justify-between px-5 pt-6 pb-3">
+        <span className={`text-xs uppercase tracking-wider ${colors.title}`}>Chapters</span>
+        <button onClick={onClose} className={`text-sm ${colors.meta} hover:text-amber-500 transition-colors`}>
+          Close
+        </button>
+      </div>
+
+      <ol className="flex-1 overflow-y-auto px-2 pb-4">
+        {statuses.map((status, i) => (
+          <li key={status.chapter.id}>
+            <button
+              ref={(el) => {
+                rowRefs.current[i] = el;
+              }}
+              // The current chapter takes focus when the drawer opens
+              autoFocus={i === currentRow}
+              onClick={() => onJump(status.chapter.startTokenIndex)}
+              aria-current={status.isCurrent ? 'true' : undefined}
+              style={{ paddingInlineStart: `${0.75 + status.depth}rem` }}
+              className={`w-full text-start px-3 py-2.5 rounded-lg outline-none transition-colors focus:ring-1 focus:ring-amber-500/40 ${
+                status.isCurrent ? colors.current : status.isDone ? colors.done : colors.row
+              }`}
+            >
+              <div className="flex items-baseline justify-between gap-3">
+                <span className="truncate text-sm">{status.chapter.title}</span>
+                <span className={`shrink-0 text-xs ${status.isDone ? 'text-amber-500' : colors.meta}`}>
+                  {status.isDone ? 'Done ✓' : `${formatTimeLeft(status.msLeft)} left`}
+                </span>
+              </div>
+              <div className={`mt-1.5 h-0.5 rounded-full overflow-hidden ${colors.track}`}>
+                <div
+                  className="h-full bg-gradient-to-r from-amber-600 to-red-500"
+                  style={{ width: `${status.progress * 100}%` }}
+                />
+              </div>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+};
@@ -1,26 +1,76 @@
-import React, { useState, useRef, useEffect } from 'react';
-import type { Chapter } from '../../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { Chapter, Token, TextDirection, Theme } from '../../types';
+import { buildWordOffsets, tokenIndexForWord } from '../../lib/rsvp/tokenizer';
+import type { PlaybackTimeline } from '../../lib/rsvp/playback';
+import { chapterPath } from '../../lib/rsvp/chapters';
+import type { HeatBucket } from '../../lib/storage/event-store';
 
 interface DualProgressBarProps {
   chapters: Chapter[];
   currentIndex: number;
   totalTokens: number;
   wpm: number;
-  tokens: Array<{ text: string }>;
+  tokens: Token[];
+  timeline: PlaybackTimeline; // simulatePlayback(tokens, wpm), for time left
   onScrubStart?: () => void;
   onScrubMove?: (index: number) => void;
   onScrubEnd?: () => void;
+  direction?: TextDirection;
+  theme?: Theme;
+  heatmap?: HeatBucket[]; // Pauses, rewinds and slowdowns across past sessions
+  showSections?: boolean; // Thin section-progress track under the bar
 }
 
+// Neutral track, tick and tooltip colors; the ember gradient is shared
+const BAR_THEMES = {
+  dark: {
+    track: 'bg-white/10',
+    overall: 'bg-white/20',
+    tick: 'bg-white/30',
+    sectionTick: 'bg-white/15',
+    section: 'bg-amber-400/70',
+    handle: 'bg-white',
+    tooltip: 'bg-zinc-900/95 border-zinc-700',
+    tooltipArrow: 'border-b-zinc-700',
+    tooltipText: 'text-zinc-400',
+    snippet: 'text-zinc-300',
+    divider: 'border-zinc-700',
+    heatTrack: 'bg-white/5',
+  },
+  light: {
+    track: 'bg-black/10',
+    overall: 'bg-black/15',
+    tick: 'bg-black/25',
+    sectionTick: 'bg-black/10',
+    section: 'bg-amber-500/70',
+    handle: 'bg-zinc-800',
+    tooltip: 'bg-white/95 border-zinc-300',
+    tooltipArrow: 'border-b-zinc-300',
+    tooltipText: 'text-zinc-500',
+    snippet: 'text-zinc-700',
+    divider: 'border-zinc-200',
+    heatTrack: 'bg-black/5',
+  },
+} as const;
+
 /**
  * DualProgressBar - Layered progress display with chapter + overall progress
  *
  * Features:
  * - Background layer: Overall progress (faint)
- * - Foreground layer: Current chapter progress (full opacity gradient)
- * - Milestone ticks at chapter boundaries
+ * - Foreground layer: Current top-level chapter progress (full opacity gradient)
+ * - Section track: progress through the innermost section of a nested chapter
+ * - Milestone ticks at chapter boundaries; shorter, fainter ones at sections
+ * - Chapter path (Part › Chapter › Section) below the bar
  * - Interactive scrubbing with hover preview
  * - Drag to seek with snippet preview
+ * - Optional heat strip of reading hotspots; hover shows the passage
+ *
+ * Positions are measured in words rather than tokens, so a chunked frame
+ * holding several words advances the bar by all of them.
+ *
+ * RTL documents mirror the track: progress fills from the right and
+ * scrubbing maps the right edge to the start of the document.
  */
 export const DualProgressBar: React.FC<DualProgressBarProps> = ({
   chapters,
@@ -28,15 +78,23 @@ export const DualProgressBar: React.FC<DualProgressBarProps> = ({
   totalTokens,
   wpm,
   tokens,
+  timeline,
   onScrubStart,
   onScrubMove,
   onScrubEnd,
+  direction = 'ltr',
+  theme = 'dark',
+  heatmap,
+  showSections = true,
 }) => {
+  const isRTL = direction === 'rtl';
+  const colors = BAR_THEMES[theme];
   const [isDragging, setIsDragging] = useState(false);
   const [hoverPosition, setHoverPosition] = useState<number | null>(null);
   const [dragPosition, setDragPosition] = useState<number | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerWidth, setContainerWidth] = useState(0);
+  const [hoverBucket, setHoverBucket] = useState<number | null>(null);
 
   // Measure container width on mount and resize
   useEffect(() => {
@@ -51,24 +109,37 @@ export const DualProgressBar: React.FC<DualProgressBarProps> = ({
     return () => window.removeEventListener('resize', updateWidth);
   }, []);
 
-  // Find current chapter
-  const currentChapter = chapters.find(ch =>
-    currentIndex >= ch.startTokenIndex && currentIndex < ch.endTokenIndex
-  );
-
-  // Calculate chapter progress
-  const chapterProgress = currentChapter
-    ? ((currentIndex - currentChapter.startTokenIndex) /
-       (currentChapter.endTokenIndex - currentChapter.startTokenIndex)) * 100
-    : 0;
+  // Word position of every token boundary (frames may hold several words)
+  const wordOffsets = useMemo(() => buildWordOffsets(tokens), [tokens]);
+  const totalWords = wordOffsets[tokens.length] || totalTokens;
+  const wordAt = (tokenIndex: number) =>
+    wordOffsets[Math.max(0, Math.min(tokens.length, tokenIndex))] ?? tokenIndex;
+
+  // Find current chapter: outermost first, innermost section last
+  const currentPath = chapterPath(chapters, currentIndex);
+  const currentChapter = currentPath[0];
+  const currentSection = currentPath.length > 1 ? currentPath[currentPath.length - 1] : undefined;
+  const topLevelChapters = chapters.filter(ch => ch.parentId === undefined);
+
+  // Progress through a chapter in percent, by words
+  const progressIn = (chapter: Chapter | undefined) =>
+    chapter
+      ? ((wordAt(currentIndex) - wordAt(chapter.startTokenIndex)) /
+         Math.max(1, wordAt(chapter.endTokenIndex) - wordAt(chapter.startTokenIndex))) * 100
+      : 0;
+
+  // Calculate chapter and section progress
+  const chapterProgress = progressIn(currentChapter);
+  const sectionProgress = progressIn(currentSection);
 
   // Calculate overall progress
-  const overallProgress = totalTokens > 0 ? (currentIndex / totalTokens) * 100 : 0;
+  const overallProgress = totalWords > 0 ? (wordAt(currentIndex) / totalWords) * 100 : 0;
 
   // Generate ticks for chapter boundaries
-  const ticks = chapters.map((ch, idx) => ({
-    position: (ch.startTokenIndex / totalTokens) * 100,
-    isCurrent: ch === currentChapter,
+  const ticks = chapters.map((ch) => ({
+    position: (wordAt(ch.startTokenIndex) / totalWords) * 100,
+    isCurrent: ch === currentChapter || ch === currentSection,
+    isSection: ch.parentId !== undefined,
     title: ch.title,
   }));
 
@@ -76,15 +147,14 @@ export const DualProgressBar: React.FC<DualProgressBarProps> = ({
   const getChapterInfo = (positionPx: number) => {
     if (containerWidth === 0) return null;
 
-    const percent = Math.max(0, Math.min(1, positionPx / containerWidth));
-    const tokenIndex = Math.floor(percent * totalTokens);
-    const chapter = chapters.find(ch =>
-      tokenIndex >= ch.startTokenIndex && tokenIndex < ch.endTokenIndex
-    );
+    const ratio = positionPx / containerWidth;
+    const percent = Math.max(0, Math.min(1, isRTL ? 1 - ratio : ratio));
+    const wordIndex = Math.floor(percent * totalWords);
+    const tokenIndex = tokenIndexForWord(wordOffsets, wordIndex);
+    const chapter = chapterPath(chapters, tokenIndex)[0];
 
     // Calculate time remaining
-    const tokensRemaining = totalTokens - tokenIndex;
-    const secondsRemaining = (tokensRemaining / wpm) * 60;
+    const secondsRemaining = (timeline.durationMs - (timeline.offsets[tokenIndex] ?? 0)) / 1000;
 
     // Format time
     const formatTime = (seconds: number): string => {
@@ -96,10 +166,11 @@ export const DualProgressBar: React.FC<DualProgressBarProps> = ({
 
     return {
       chapterTitle: chapter?.title || 'Unknown',
-      chapterNum: chapter ? chapters.indexOf(chapter) + 1 : 0,
+      chapterNum: chapter ? topLevelChapters.indexOf(chapter) + 1 : 0,
       percent: Math.round(percent * 100),
       timeRemaining: formatTime(secondsRemaining),
       tokenIndex,
+      wordIndex,
     };
   };
 
@@ -186,6 +257,7 @@ export const DualProgressBar: React.FC<DualProgressBarProps> = ({
       <div
         ref={containerRef}
         className={`relative h-2 cursor-${isDragging ? 'grabbing' : 'grab'} select-none`}
+        style={{ transform: isRTL ? 'scaleX(-1)' : undefined }}
         onMouseMove={handleMouseMove}
         onMouseLeave={handleMouseLeave}
         onMouseDown={handleMouseDown}
@@ -203,9 +275,9 @@ export const DualProgressBar: React.FC<DualProgressBarProps> = ({
         ) : (
           <>
             {/* Multiple chapters: Background (overall progress, faint) */}
-            <div className="absolute inset-0 bg-white/10 rounded-full overflow-hidden">
+            <div className={`absolute inset-0 ${colors.track} rounded-full overflow-hidden`}>
               <div
-                className="h-full bg-white/20 ease-linear"
+                className={`h-full ${colors.overall} ease-linear`}
                 style={{
                   width: `${overallProgress}%`,
                   transition: isDragging ? 'none' : `width ${60000 / wpm}ms linear`,
@@ -228,8 +300,10 @@ export const DualProgressBar: React.FC<DualProgressBarProps> = ({
         {ticks.map((tick, idx) => (
           <div
             key={idx}
-            className={`absolute top-0 bottom-0 w-px ${
-              tick.isCurrent ? 'bg-amber-400 shadow-[0_0_8px_rgba(251,191,36,0.6)]' : 'bg-white/30'
+            className={`absolute ${tick.isSection ? 'top-1/2' : 'top-0'} bottom-0 w-px ${
+              tick.isCurrent
+                ? 'bg-amber-400 shadow-[0_0_8px_rgba(251,191,36,0.6)]'
+                : tick.isSection ? colors.sectionTick : colors.tick
             }`}
             style={{
               left: `${tick.position}%`,
@@ -241,15 +315,75 @@ export const DualProgressBar: React.FC<DualProgressBarProps> = ({
         {/* Scrub handle (visible on hover/drag) */}
         {(hoverPosition !== null || isDragging) && (
           <div
-            className="absolute top-0 bottom-0 w-1 bg-white rounded-full shadow-lg"
+            className={`absolute top-0 bottom-0 w-1 ${colors.handle} rounded-full shadow-lg`}
             style={{
-              left: chapterInfo ? `${(chapterInfo.tokenIndex / totalTokens) * 100}%` : `${overallProgress}%`,
+              left: chapterInfo ? `${(chapterInfo.wordIndex / totalWords) * 100}%` : `${overallProgress}%`,
               transform: 'translateX(-50%)',
             }}
           />
         )}
       </div>
 
+      {/* Section track: progress through the current innermost section */}
+      {showSections && currentSection && (
+        <div
+          className={`relative h-0.5 mt-1 rounded-full overflow-hidden ${colors.track}`}
+          style={{ transform: isRTL ? 'scaleX(-1)' : undefined }}
+          title={currentSection.title}
+        >
+          <div
+            className={`h-full ${colors.section} ease-linear`}
+            style={{
+              width: `${sectionProgress}%`,
+              transition: isDragging ? 'none' : `width ${60000 / wpm}ms linear`,
+            }}
+          />
+        </div>
+      )}
+
+      {/* Heat strip: hotter slices are where readers paused, rewound or slowed down */}
+      {heatmap && heatmap.length > 0 && (
+        <div
+          className={`relative flex h-1 mt-1 rounded-full overflow-hidden ${colors.heatTrack}`}
+          style={{ transform: isRTL ? 'scaleX(-1)' : undefined }}
+          onMouseLeave={() => setHoverBucket(null)}
+        >
+          {heatmap.map((bucket, i) => (
+            <div
+              key={i}
+              className="flex-1 h-full bg-red-500"
+              style={{ opacity: bucket.heat * 0.9 }}
+              onMouseEnter={() => setHoverBucket(bucket.heat > 0 ? i : null)}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Hotspot tooltip */}
+      {heatmap && hoverBucket !== null && heatmap[hoverBucket] && displayPosition === null && (
+        <div
+          className="absolute top-full mt-2 pointer-events-none z-30"
+          style={{
+            left: `${((isRTL ? heatmap.length - hoverBucket - 0.5 : hoverBucket + 0.5) / heatmap.length) * 100}%`,
+            transform: 'translateX(-50%)',
+          }}
+        >
+          <div className={`w-0 h-0 border-l-4 border-r-4 border-b-4 border-l-transparent border-r-transparent ${colors.tooltipArrow} mx-auto mb-[-1px]`} />
+          <div className={`${colors.tooltip} backdrop-blur-xl border rounded-lg px-3 py-2 shadow-xl whitespace-nowrap`}>
+            <div className="text-red-400 text-xs font-medium">
+              {[
+                heatmap[hoverBucket].pauses > 0 && `${heatmap[hoverBucket].pauses} pauses`,
+                heatmap[hoverBucket].rewinds > 0 && `${heatmap[hoverBucket].rewinds} rewinds`,
+                heatmap[hoverBucket].slowdowns > 0 && `${heatmap[hoverBucket].slowdowns} slowdowns`,
+              ].filter(Boolean).join(' · ')}
+            </div>
+            <div className={`${colors.snippet} text-xs italic truncate max-w-xs mt-1`}>
+              "{getSnippet(tokenIndexForWord(wordOffsets, heatmap[hoverBucket].startWord), 5)}"
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Scrub Preview Tooltip - positioned below progress bar */}
       {chapterInfo && displayPosition !== null && (
         <div
@@ -260,20 +394,20 @@ export const DualProgressBar: React.FC<DualProgressBarProps> = ({
           }}
         >
           {/* Small triangle pointing up */}
-          <div className="w-0 h-0 border-l-4 border-r-4 border-b-4 border-l-transparent border-r-transparent border-b-zinc-700 mx-auto mb-[-1px]" />
-          <div className="bg-zinc-900/95 backdrop-blur-xl border border-zinc-700 rounded-lg px-3 py-2 shadow-xl whitespace-nowrap">
+          <div className={`w-0 h-0 border-l-4 border-r-4 border-b-4 border-l-transparent border-r-transparent ${colors.tooltipArrow} mx-auto mb-[-1px]`} />
+          <div className={`${colors.tooltip} backdrop-blur-xl border rounded-lg px-3 py-2 shadow-xl whitespace-nowrap`}>
             <div className="text-amber-400 text-sm font-medium">
               {isSingleChapter
                 ? (chapterInfo.chapterTitle.startsWith('Section') ? 'Full Text' : chapterInfo.chapterTitle)
                 : `Chapter ${chapterInfo.chapterNum}`} · {chapterInfo.percent}%
             </div>
-            <div className="text-zinc-400 text-xs">
+            <div className={`${colors.tooltipText} text-xs`}>
               {chapterInfo.timeRemaining} left
             </div>
             {isDragging && (
               <>
-                <div className="my-2 border-t border-zinc-700" />
-                <div className="text-zinc-300 text-xs italic truncate max-w-xs">
+                <div className={`my-2 border-t ${colors.divider}`} />
+                <div className={`${colors.snippet} text-xs italic truncate max-w-xs`}>
                   "{getSnippet(chapterInfo.tokenIndex, 5)}"
                 </div>
               </>
@@ -282,11 +416,11 @@ export const DualProgressBar: React.FC<DualProgressBarProps> = ({
         </div>
       )}
 
-      {/* Chapter indicator below progress bar */}
+      {/* Chapter path below progress bar: Part › Chapter › Section */}
       {!isSingleChapter && currentChapter && (
-        <div className="mt-8 text-center">
+        <div className="mt-8 text-center truncate" dir={direction}>
           <span className="text-xs text-zinc-500 uppercase tracking-wider">
-            {currentChapter.title}
+            {currentPath.map(ch => ch.title).join(' › ')}
           </span>
         </div>
       )}
@@ -0,0 +1,83 @@
+import React from 'react';
+import type { Chapter, Token, TextDirection, Theme } from '../../types';
+import type { PlaybackTimeline } from '../../lib/rsvp/playback';
+import { resumePoint, formatResumeLabel } from '../../lib/rsvp/resume';
+
+interface ResumePromptProps {
+  tokens: Token[];
+  chapters: Chapter[];
+  index: number; // Saved position, as a token index
+  timeline: PlaybackTimeline; // simulatePlayback(tokens, wpm)
+  direction?: TextDirection;
+  theme?: Theme;
+  onResume: () => void;
+  onJump: (index: number) => void;
+}
+
+const PROMPT_THEMES = {
+  dark: {
+    card: 'bg-zinc-950/90 border-white/10',
+    text: 'text-zinc-200',
+    button: 'bg-white/5 text-zinc-300 hover:bg-white/10 border-white/10',
+  },
+  light: {
+    card: 'bg-white/90 border-black/10',
+    text: 'text-zinc-800',
+    button: 'bg-black/5 text-zinc-700 hover:bg-black/10 border-black/10',
+  },
+} as const;
+
+/**
+ * ResumePrompt - offered when a document reopens at a saved position
+ *
+ * Playback already sits at the saved position, so resuming just dismisses
+ * the prompt; starting over or at the chapter start seeks first.
+ */
+export const ResumePrompt: React.FC<ResumePromptProps> = ({
+  tokens,
+  chapters,
+  index,
+  timeline,
+  direction = 'ltr',
+  theme = 'dark',
+  onResume,
+  onJump,
+}) => {
+  const colors = PROMPT_THEMES[theme];
+  const point = resumePoint(tokens, chapters, index, timeline);
+  const chapterStart = point.chapter?.startTokenIndex ?? 0;
+
+  return (
+    <div
+      dir={direction}
+      role="dialog"
+      aria-label="Resume reading"
+      className={`absolute top-24 left-1/2 -translate-x-1/2 z-30 max-w-[90vw] px-5 py-4 rounded-xl border backdrop-blur-xl shadow-2xl ${colors.card}`}
+    >
+      <div className={`text-sm mb-3 ${colors.text}`}>{formatResumeLabel(point)}</div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          autoFocus
+          onClick={onResume}
+          className="px-3 py-1.5 rounded text-sm font-medium bg-amber-600/80 text-white hover:bg-amber-500/80 transition-colors"
+        >
+          Resume
+        </button>
+        <button
+          onClick={() => onJump(0)}
+          className={`px-3 py-1.5 rounded text-sm font-medium border transition-colors ${colors.button}`}
+        >
+          Start over
+        </button>
+        {point.chapter && chapterStart > 0 && chapterStart < point.index && (
+          <button
+            onClick={() => onJump(chapterStart)}
+            className={`px-3 py-1.5 rounded text-sm font-medium border transition-colors truncate max-w-[16rem] ${colors.button}`}
+          >
+            Start of {point.chapter.title}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
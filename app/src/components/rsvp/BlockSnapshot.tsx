@@ -0,0 +1,66 @@
+import React from 'react';
+import type { NonLinearBlock, Theme } from '../../types';
+
+interface BlockSnapshotProps {
+  block: NonLinearBlock;
+  theme?: Theme;
+}
+
+// Rows shown before the snapshot is cut off with "…"
+const MAX_ROWS = 8;
+
+/**
+ * BlockSnapshot - a table, figure or equation held on screen as one frame
+ *
+ * Shown in place of the word display while a snapshot token is active.
+ */
+export const BlockSnapshot: React.FC<BlockSnapshotProps> = ({ block, theme = 'dark' }) => {
+  const rows = block.rows || [];
+  const isLight = theme === 'light';
+
+  return (
+    <figure className="flex flex-col items-center gap-3 max-w-3xl w-full mx-auto px-6">
+      {block.kind === 'table' && rows.length > 0 && (
+        <div className={`overflow-hidden rounded-lg border w-full ${isLight ? 'border-zinc-300' : 'border-zinc-800/80'}`}>
+          <table className={`w-full text-sm ${isLight ? 'text-zinc-700' : 'text-zinc-300'}`}>
+            <tbody>
+              {rows.slice(0, MAX_ROWS).map((row, r) => (
+                <tr
+                  key={r}
+                  className={r === 0
+                    ? `font-medium ${isLight ? 'bg-zinc-200/80 text-zinc-900' : 'bg-zinc-900/80 text-zinc-100'}`
+                    : `border-t ${isLight ? 'border-zinc-200' : 'border-zinc-800/60'}`}
+                >
+                  {row.map((cell, c) => (
+                    <td key={c} className="px-3 py-1.5 text-left">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length > MAX_ROWS && (
+            <div className="text-center text-zinc-600 text-xs py-1">…</div>
+          )}
+        </div>
+      )}
+
+      {block.kind === 'figure' && block.src && (
+        <img
+          src={block.src}
+          alt={block.caption || ''}
+          className="max-h-[50vh] max-w-full rounded-lg object-contain"
+        />
+      )}
+
+      {block.kind === 'equation' && (
+        <div className={`font-mono text-2xl text-center break-words ${isLight ? 'text-zinc-800' : 'text-zinc-200'}`}>
+          {block.source}
+        </div>
+      )}
+
+      {block.caption && (
+        <figcaption className="text-zinc-500 text-sm text-center">{block.caption}</figcaption>
+      )}
+    </figure>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import type { Token, TextDirection, Theme } from '../../types';
+
+interface ContextPeekProps {
+  tokens: Token[];
+  currentIndex: number;
+  direction?: TextDirection;
+  theme?: Theme;
+  onSelect: (index: number) => void;
+}
+
+// Tokens shown either side of the current one when a paragraph is very long
+const MAX_CONTEXT_TOKENS = 80;
+
+/**
+ * Token range [start, end) of the paragraph containing `index`, narrowed to
+ * whole sentences around `index` when the paragraph is too long to show
+ */
+function contextRange(tokens: Token[], index: number): { start: number; end: number } {
+  const { paragraphIndex, sentenceIndex } = tokens[index];
+
+  let start = index;
+  while (start > 0 && tokens[start - 1].paragraphIndex === paragraphIndex) start--;
+  let end = index + 1;
+  while (end < tokens.length && tokens[end].paragraphIndex === paragraphIndex) end++;
+
+  if (index - start > MAX_CONTEXT_TOKENS) {
+    start = index - MAX_CONTEXT_TOKENS;
+    // Don't start mid-sentence unless it's the current one
+    while (start < index && tokens[start].sentenceIndex === tokens[start - 1]?.sentenceIndex
+      && tokens[start].sentenceIndex !== sentenceIndex) {
+      start++;
+    }
+  }
+  if (end - index > MAX_CONTEXT_TOKENS) {
+    end = index + MAX_CONTEXT_TOKENS;
+    while (end > index + 1 && tokens[end].sentenceIndex === tokens[end - 1].sentenceIndex
+      && tokens[end - 1].sentenceIndex !== sentenceIndex) {
+      end--;
+    }
+  }
+
+  return { start, end };
+}
+
+/**
+ * ContextPeek - the surrounding paragraph, shown while paused
+ *
+ * The current sentence is brighter and the current token is highlighted.
+ * Clicking any token moves playback to it.
+ */
+export const ContextPeek: React.FC<ContextPeekProps> = ({
+  tokens,
+  currentIndex,
+  direction = 'ltr',
+  theme = 'dark',
+  onSelect,
+}) => {
+  const isLight = theme === 'light';
+  const range = useMemo(
+    () => (tokens[currentIndex] ? contextRange(tokens, currentIndex) : null),
+    [tokens, currentIndex]
+  );
+  if (!range) return null;
+
+  const currentSentence = tokens[currentIndex].sentenceIndex;
+  const indices = Array.from({ length: range.end - range.start }, (_, i) => range.start + i);
+  const paragraph = tokens[currentIndex].paragraphIndex;
+  const isTruncatedStart = range.start > 0 && tokens[range.start - 1].paragraphIndex === paragraph;
+  const isTruncatedEnd = range.end < tokens.length && tokens[range.end].paragraphIndex === paragraph;
+
+  return (
+    <div
+      dir={direction}
+      className={`max-w-2xl w-full max-h-48 overflow-y-auto px-5 py-4 rounded-xl border backdrop-blur-md text-base leading-relaxed text-start ${
+        isLight ? 'bg-white/80 border-black/10' : 'bg-zinc-950/70 border-white/10'
+      }`}
+    >
+      {isTruncatedStart && <span className="text-zinc-500">… </span>}
+      {indices.map((i) => {
+        const token = tokens[i];
+        // Keep the source spacing: scripts like Japanese have no spaces between words
+        const gap = i > range.start && token.start > tokens[i - 1].end ? ' ' : '';
+        const isCurrent = i === currentIndex;
+        const inSentence = token.sentenceIndex === currentSentence;
+
+        return (
+          <React.Fragment key={i}>
+            {gap}
+            <span
+              role="button"
+              tabIndex={-1}
+              onClick={() => onSelect(i)}
+              className={`cursor-pointer rounded px-0.5 transition-colors ${
+                isCurrent
+                  ? `bg-amber-500/30 ${isLight ? 'text-zinc-900' : 'text-white'}`
+                  : inSentence
+                    ? isLight ? 'text-zinc-800 hover:bg-black/5' : 'text-zinc-200 hover:bg-white/10'
+                    : isLight ? 'text-zinc-400 hover:bg-black/5 hover:text-zinc-600' : 'text-zinc-500 hover:bg-white/10 hover:text-zinc-300'
+              }`}
+            >
+              {token.text}
+            </span>
+          </React.Fragment>
+        );
+      })}
+      {isTruncatedEnd && <span className="text-zinc-500"> …</span>}
+    </div>
+  );
+};
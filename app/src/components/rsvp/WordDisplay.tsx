@@ -1,9 +1,12 @@
 import React from 'react';
-import type { Token } from '../../types';
+import type { Token, Theme } from '../../types';
+import { splitAtORP, preserveJoining } from '../../lib/rsvp/utils';
+import { BlockSnapshot } from './BlockSnapshot';
 
 interface WordDisplayProps {
   token: Token | null;
   fontSize?: 'S' | 'M' | 'L' | 'XL';
+  theme?: Theme;
 }
 
 const FONT_SIZE_MAP = {
@@ -13,24 +16,47 @@ const FONT_SIZE_MAP = {
   XL: 'clamp(48px, 10vw, 144px)',
 } as const;
 
+// Word colors per theme; the pivot stays red in both
+const WORD_COLORS = {
+  dark: {
+    text: '#d4d4d8', /* zinc-300 for better contrast */
+    pivot: '#ef4444', /* red-500 */
+    shadow: '0 2px 8px rgba(0, 0, 0, 0.5)',
+    pivotShadow: '0 0 20px rgba(239, 68, 68, 0.4), 0 2px 8px rgba(0, 0, 0, 0.5)',
+  },
+  light: {
+    text: '#27272a', /* zinc-800 */
+    pivot: '#dc2626', /* red-600 */
+    shadow: 'none',
+    pivotShadow: 'none',
+  },
+} as const;
+
 /**
  * WordDisplay - RSVP reading with ORP anchor (Option A: grid layout)
  *
  * The pivot (ORP) letter is centered using a 3-column CSS grid.
  * No measuring, no transforms, no animations — pivot stays dead center.
  * Font size scales with viewport width via clamp().
+ *
+ * RTL words set dir="rtl" on the grid, which mirrors the columns: the
+ * prefix (first letters read) sits right of the pivot, the suffix left.
  * 
- * Cinematic styling: warm ember theme with subtle text shadows for depth.
+ * Cinematic styling: warm ember theme with subtle text shadows for depth;
+ * the light theme drops the shadows and uses dark ink.
  */
-export const WordDisplay: React.FC<WordDisplayProps> = ({ token, fontSize = 'M' }) => {
+export const WordDisplay: React.FC<WordDisplayProps> = ({ token, fontSize = 'M', theme = 'dark' }) => {
+  const colors = WORD_COLORS[theme];
+  const isLight = theme === 'light';
+
   if (!token) {
     return (
       <div className="flex items-center justify-center h-full">
         <div className="text-center">
-          <div className="text-zinc-500 text-2xl font-light tracking-wide mb-2">
+          <div className={`${isLight ? 'text-zinc-600' : 'text-zinc-500'} text-2xl font-light tracking-wide mb-2`}>
             Ready to glide
           </div>
-          <div className="text-zinc-600 text-sm">
+          <div className={`${isLight ? 'text-zinc-500' : 'text-zinc-600'} text-sm`}>
             Press play to begin reading
           </div>
         </div>
@@ -38,10 +64,24 @@ export const WordDisplay: React.FC<WordDisplayProps> = ({ token, fontSize = 'M'
     );
   }
 
-  const { text, orpIndex } = token;
-  const prefix = text.slice(0, orpIndex);
-  const pivot = text[orpIndex] || '';
-  const suffix = text.slice(orpIndex + 1);
+  // Snapshot of a table, figure or equation
+  if (token.block) {
+    return <BlockSnapshot block={token.block} theme={theme} />;
+  }
+
+  // Marker for skipped content, e.g. "[Table]"
+  if (token.kind === 'marker') {
+    return (
+      <div className="flex items-center justify-center w-full">
+        <div className={`${isLight ? 'text-zinc-400' : 'text-zinc-600'} text-2xl font-light tracking-widest uppercase`}>
+          {token.text}
+        </div>
+      </div>
+    );
+  }
+
+  const { prefix, pivot, suffix } = preserveJoining(splitAtORP(token.text, token.orpIndex));
+  const isRTL = token.direction === 'rtl';
 
   return (
     <div className="flex items-center justify-center w-full">
@@ -54,31 +94,34 @@ export const WordDisplay: React.FC<WordDisplayProps> = ({ token, fontSize = 'M'
         This ensures the pivot glyph stays at the exact center regardless of word length.
       */}
       <div
+        dir={token.direction}
         style={{
           display: 'grid',
           gridTemplateColumns: '1fr auto 1fr',
           alignItems: 'baseline',
           width: '100%',
           overflow: 'visible',
-          whiteSpace: 'nowrap',
+          /* pre keeps the spaces inside multi-word chunks next to the pivot */
+          whiteSpace: 'pre',
           /* Responsive font size based on user preference */
           fontSize: FONT_SIZE_MAP[fontSize],
           lineHeight: 1.1,
           fontFamily: 'system-ui, -apple-system, BlinkMacSystemFont, sans-serif',
           fontWeight: 300,
           fontVariantLigatures: 'none',
-          letterSpacing: '-0.02em',
+          /* Letter spacing breaks Arabic cursive joins */
+          letterSpacing: isRTL ? 'normal' : '-0.02em',
           /* Subtle text shadow for depth against dark background */
-          textShadow: '0 2px 8px rgba(0, 0, 0, 0.5)',
+          textShadow: colors.shadow,
         }}
       >
-        {/* Prefix (left of pivot) */}
+        {/* Prefix (before pivot: left in LTR, right in RTL) */}
         <span
           style={{
             justifySelf: 'end',
-            textAlign: 'right',
+            textAlign: 'end',
             overflow: 'visible',
-            color: '#d4d4d8', /* zinc-300 for better contrast */
+            color: colors.text,
           }}
         >
           {prefix}
@@ -89,21 +132,21 @@ export const WordDisplay: React.FC<WordDisplayProps> = ({ token, fontSize = 'M'
           style={{
             justifySelf: 'center',
             overflow: 'visible',
-            color: '#ef4444', /* red-500 */
+            color: colors.pivot,
             fontWeight: 500, /* slightly bolder for emphasis */
-            textShadow: '0 0 20px rgba(239, 68, 68, 0.4), 0 2px 8px rgba(0, 0, 0, 0.5)',
+            textShadow: colors.pivotShadow,
           }}
         >
           {pivot}
         </span>
 
-        {/* Suffix (right of pivot) */}
+        {/* Suffix (after pivot: right in LTR, left in RTL) */}
         <span
           style={{
             justifySelf: 'start',
-            textAlign: 'left',
+            textAlign: 'start',
             overflow: 'visible',
-            color: '#d4d4d8', /* zinc-300 for better contrast */
+            color: colors.text,
           }}
         >
           {suffix}
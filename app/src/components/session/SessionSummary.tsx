@@ -1,13 +1,47 @@
 import React from 'react';
-import type { Session } from '../../types';
+import type { Session, Theme } from '../../types';
 import { calculateGlideScore, formatDuration } from '../../lib/storage/session-store';
 
 interface SessionSummaryProps {
   session: Session;
   onRestart?: () => void;
   onExit?: () => void;
+  theme?: Theme;
 }
 
+// Adaptive speed changes listed before the rest are summarised as "+N more"
+const MAX_SPEED_CHANGES = 5;
+
+// Card surfaces and text per theme; accents stay amber/red in both
+const SUMMARY_THEMES = {
+  dark: {
+    backdrop: 'bg-black/80',
+    card: 'bg-zinc-900/90 border-zinc-800',
+    panel: 'bg-zinc-800/30',
+    highlight: 'bg-zinc-800/50',
+    track: 'bg-zinc-800',
+    title: 'text-white',
+    text: 'text-zinc-300',
+    muted: 'text-zinc-400',
+    faint: 'text-zinc-500',
+    secondaryButton: 'bg-zinc-800 hover:bg-zinc-700 text-white border-zinc-700',
+  },
+  light: {
+    backdrop: 'bg-stone-100/80',
+    card: 'bg-white/95 border-zinc-200',
+    panel: 'bg-zinc-100',
+    highlight: 'bg-amber-50',
+    track: 'bg-zinc-200',
+    title: 'text-zinc-900',
+    text: 'text-zinc-700',
+    muted: 'text-zinc-500',
+    faint: 'text-zinc-500',
+    secondaryButton: 'bg-zinc-100 hover:bg-zinc-200 text-zinc-800 border-zinc-300',
+  },
+} as const;
+
+type SummaryColors = (typeof SUMMARY_THEMES)[Theme];
+
 /**
  * MetricCard - Simple metric display card
  */
@@ -15,17 +49,18 @@ const MetricCard: React.FC<{
   label: string;
   value: string | number;
   color?: 'amber' | 'zinc' | 'white';
-}> = ({ label, value, color = 'zinc' }) => {
+  colors: SummaryColors;
+}> = ({ label, value, color = 'zinc', colors }) => {
   const colorClasses = {
     amber: 'text-amber-400',
-    zinc: 'text-zinc-300',
-    white: 'text-white',
+    zinc: colors.text,
+    white: colors.title,
   };
 
   return (
-    <div className="bg-zinc-800/30 rounded-lg p-3 text-center">
+    <div className={`${colors.panel} rounded-lg p-3 text-center`}>
       <div className={`text-xl font-light ${colorClasses[color]}`}>{value}</div>
-      <div className="text-xs text-zinc-500 uppercase tracking-wider">{label}</div>
+      <div className={`text-xs ${colors.faint} uppercase tracking-wider`}>{label}</div>
     </div>
   );
 };
@@ -37,7 +72,8 @@ const ProgressBar: React.FC<{
   label: string;
   value: number;
   color: 'amber' | 'orange' | 'red';
-}> = ({ label, value, color }) => {
+  colors: SummaryColors;
+}> = ({ label, value, color, colors }) => {
   const colorClasses = {
     amber: 'from-amber-600 to-amber-500',
     orange: 'from-orange-600 to-orange-500',
@@ -47,10 +83,10 @@ const ProgressBar: React.FC<{
   return (
     <div className="space-y-1">
       <div className="flex items-center justify-between text-xs">
-        <span className="text-zinc-400">{label}</span>
-        <span className="text-zinc-300">{Math.round(value)}%</span>
+        <span className={colors.muted}>{label}</span>
+        <span className={colors.text}>{Math.round(value)}%</span>
       </div>
-      <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+      <div className={`h-2 ${colors.track} rounded-full overflow-hidden`}>
         <div
           className={`h-full bg-gradient-to-r ${colorClasses[color]} ease-out`}
           style={{ width: `${Math.min(100, value)}%` }}
@@ -67,17 +103,20 @@ const ProgressBar: React.FC<{
  * - Glide Score (hero metric)
  * - Best sustained 60s WPM
  * - Detailed metrics grid (avg WPM, pauses, rewinds, duration)
+ * - Adaptive speed changes, when any were made
  * - Progress bars for overall + chapter completion
  */
 export const SessionSummary: React.FC<SessionSummaryProps> = ({
   session,
   onRestart,
   onExit,
+  theme = 'dark',
 }) => {
   const glideScore = calculateGlideScore(session);
+  const colors = SUMMARY_THEMES[theme];
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+    <div className={`fixed inset-0 z-50 flex items-center justify-center ${colors.backdrop} backdrop-blur-sm`}>
       <div className="relative max-w-md w-full mx-4 animate-in fade-in duration-300">
         {/* Ambient glow */}
         <div
@@ -88,7 +127,7 @@ export const SessionSummary: React.FC<SessionSummaryProps> = ({
         />
 
         {/* Card */}
-        <div className="relative bg-zinc-900/90 border border-zinc-800 rounded-3xl p-8 shadow-2xl">
+        <div className={`relative ${colors.card} border rounded-3xl p-8 shadow-2xl`}>
           {/* Checkmark icon */}
           <div className="w-16 h-16 mx-auto mb-6 rounded-full bg-gradient-to-br from-amber-500 to-red-500 flex items-center justify-center shadow-lg shadow-orange-500/30">
             <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -97,31 +136,31 @@ export const SessionSummary: React.FC<SessionSummaryProps> = ({
           </div>
 
           {/* Title */}
-          <h2 className="text-2xl font-semibold text-white mb-1 text-center">
+          <h2 className={`text-2xl font-semibold ${colors.title} mb-1 text-center`}>
             Reading Complete!
           </h2>
-          <p className="text-zinc-400 text-center mb-8">
+          <p className={`${colors.muted} text-center mb-8`}>
             Great job maintaining your reading flow
           </p>
 
           {/* Glide Score - Hero metric */}
           <div className="text-center mb-8">
-            <div className="text-zinc-500 text-sm uppercase tracking-wider mb-2">
+            <div className={`${colors.faint} text-sm uppercase tracking-wider mb-2`}>
               Glide Score
             </div>
             <div className="text-6xl font-light bg-gradient-to-r from-amber-500 via-orange-500 to-red-500 bg-clip-text text-transparent">
               {glideScore}
             </div>
-            <div className="text-zinc-500 text-xs mt-2">
+            <div className={`${colors.faint} text-xs mt-2`}>
               {session.avgWPM} avg WPM · {formatDuration(session.durationSeconds)}
             </div>
           </div>
 
           {/* Best Sustained WPM */}
           {session.bestSustainedWPM60s > 0 && (
-            <div className="bg-zinc-800/50 rounded-xl p-4 mb-6">
+            <div className={`${colors.highlight} rounded-xl p-4 mb-6`}>
               <div className="flex items-center justify-between">
-                <span className="text-zinc-400 text-sm">Best Sustained (60s)</span>
+                <span className={`${colors.muted} text-sm`}>Best Sustained (60s)</span>
                 <span className="text-2xl font-light text-amber-400">
                   {session.bestSustainedWPM60s}
                 </span>
@@ -131,23 +170,51 @@ export const SessionSummary: React.FC<SessionSummaryProps> = ({
 
           {/* Detailed metrics grid */}
           <div className="grid grid-cols-2 gap-3 mb-6">
-            <MetricCard label="Avg WPM" value={session.avgWPM} color="white" />
-            <MetricCard label="End WPM" value={session.endWPM} />
-            <MetricCard label="Pauses" value={session.pauses} />
-            <MetricCard label="Rewinds" value={session.rewinds} />
+            <MetricCard label="Avg WPM" value={session.avgWPM} color="white" colors={colors} />
+            <MetricCard label="End WPM" value={session.endWPM} colors={colors} />
+            <MetricCard label="Pauses" value={session.pauses} colors={colors} />
+            <MetricCard label="Rewinds" value={session.rewinds} colors={colors} />
           </div>
 
+          {/* Adaptive speed changes */}
+          {session.speedChanges && session.speedChanges.length > 0 && (
+            <div className={`${colors.panel} rounded-lg p-3 mb-6`}>
+              <div className={`text-xs ${colors.faint} uppercase tracking-wider mb-2`}>
+                Speed Changes · {session.speedChanges[0].from} → {session.speedChanges[session.speedChanges.length - 1].to} WPM
+              </div>
+              <ul className="space-y-1 text-sm">
+                {session.speedChanges.slice(0, MAX_SPEED_CHANGES).map((change, i) => (
+                  <li key={i} className="flex items-center justify-between">
+                    <span className={colors.text}>
+                      {change.from} → <span className={change.to > change.from ? 'text-amber-400' : colors.title}>{change.to}</span>
+                    </span>
+                    <span className={colors.faint}>
+                      {change.reason === 'rewinds' ? 'after rewinds' : 'steady reading'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {session.speedChanges.length > MAX_SPEED_CHANGES && (
+                <div className={`text-xs ${colors.faint} mt-1`}>
+                  +{session.speedChanges.length - MAX_SPEED_CHANGES} more
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Progress bars */}
           <div className="space-y-3 mb-8">
             <ProgressBar
               label="Overall Progress"
               value={session.completionDeltaOverall * 100}
               color="amber"
+              colors={colors}
             />
             <ProgressBar
               label="Chapter Progress"
               value={session.completionDeltaChapter * 100}
               color="orange"
+              colors={colors}
             />
           </div>
 
@@ -164,7 +231,7 @@ export const SessionSummary: React.FC<SessionSummaryProps> = ({
             {onExit && (
               <button
                 onClick={onExit}
-                className="px-6 py-3 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl transition-colors border border-zinc-700"
+                className={`px-6 py-3 ${colors.secondaryButton} rounded-xl transition-colors border`}
               >
                 Exit
               </button>
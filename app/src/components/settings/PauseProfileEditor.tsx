@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { CustomPauseProfile, PauseProfile } from '../../types';
+import { WordDisplay } from '../rsvp/WordDisplay';
+import { tokenize, getFrameDuration } from '../../lib/rsvp/tokenizer';
+import {
+  PAUSE_PROFILES,
+  resolvePauseProfile,
+  isBuiltInPauseProfile,
+  type BuiltInPauseProfile,
+} from '../../lib/rsvp/pause-profiles';
+
+interface PauseProfileEditorProps {
+  profiles: CustomPauseProfile[];
+  activeKey: string;
+  wpm: number;
+  onSelect: (key: string) => void;
+  onCreate: (name: string, values: PauseProfile) => void;
+  onUpdate: (id: string, updates: Pick<CustomPauseProfile, 'name' | 'values'>) => void;
+  onDelete: (id: string) => void;
+}
+
+// Editable punctuation pauses, in the order shown
+const PAUSE_FIELDS: Array<{ key: keyof PauseProfile; label: string }> = [
+  { key: 'comma', label: 'Comma ,' },
+  { key: 'semicolon', label: 'Semicolon ;' },
+  { key: 'colon', label: 'Colon :' },
+  { key: 'period', label: 'Period .' },
+  { key: 'exclamation', label: 'Exclamation !' },
+  { key: 'question', label: 'Question ?' },
+  { key: 'paragraph', label: 'Paragraph ¶' },
+];
+
+const BUILT_IN_NAMES: Record<BuiltInPauseProfile, string> = {
+  fast: 'Fast',
+  normal: 'Normal',
+  slow: 'Slow',
+};
+
+// Exercises every pause in the editor
+const PREVIEW_TEXT =
+  'Wait, is this right? Yes: commas pause briefly; periods longer. Read on!\n\nA new paragraph starts here.';
+
+/**
+ * PreviewPlayer - replays the sample text with the given pause values
+ */
+const PreviewPlayer: React.FC<{ values: PauseProfile; wpm: number }> = ({ values, wpm }) => {
+  const tokens = useMemo(() => tokenize(PREVIEW_TEXT, values), [values]);
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const token = tokens[index];
+    const timer = window.setTimeout(() => {
+      if (index >= tokens.length - 1) {
+        setIsPlaying(false);
+      } else {
+        setIndex(index + 1);
+      }
+    }, getFrameDuration(token, wpm));
+    return () => clearTimeout(timer);
+  }, [isPlaying, index, tokens, wpm]);
+
+  const token = tokens[Math.min(index, tokens.length - 1)];
+
+  return (
+    <div className="bg-zinc-950/50 border border-zinc-800 rounded-lg p-3">
+      <div className="h-20 flex items-center overflow-hidden">
+        <WordDisplay token={isPlaying || index > 0 ? token : null} fontSize="S" />
+      </div>
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-xs text-zinc-500">
+          {token && token.pauseMultiplier > 0 ? `+${token.pauseMultiplier.toFixed(1)}× pause` : ' '}
+        </span>
+        <button
+          onClick={() => {
+            if (!isPlaying) setIndex(0);
+            setIsPlaying(!isPlaying);
+          }}
+          className="px-3 py-1 rounded text-xs font-medium bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50 transition-colors"
+        >
+          {isPlaying ? 'Stop' : '▶ Preview'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * ProfileForm - name and pause values of one profile
+ * Built-in profiles are shown read-only; keyed by profile so the draft
+ * resets when another profile is selected.
+ */
+const ProfileForm: React.FC<{
+  profile: CustomPauseProfile | null;
+  values: PauseProfile;
+  wpm: number;
+  onSave: (updates: Pick<CustomPauseProfile, 'name' | 'values'>) => void;
+  onDelete: () => void;
+}> = ({ profile, values, wpm, onSave, onDelete }) => {
+  const [name, setName] = useState(profile?.name ?? '');
+  const [draft, setDraft] = useState<PauseProfile>(values);
+  const isReadOnly = profile === null;
+  const isDirty = profile !== null && (
+    name !== profile.name || PAUSE_FIELDS.some(({ key }) => draft[key] !== profile.values[key])
+  );
+
+  return (
+    <div className="space-y-3 mt-3">
+      {!isReadOnly && (
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full bg-zinc-950/50 border border-zinc-800 rounded px-3 py-1.5 text-sm text-zinc-300 focus:outline-none focus:border-zinc-700"
+          placeholder="Profile name"
+        />
+      )}
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        {PAUSE_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex items-center justify-between gap-2 text-sm text-zinc-400">
+            {label}
+            <input
+              type="number"
+              min="0"
+              max="5"
+              step="0.1"
+              value={draft[key]}
+              disabled={isReadOnly}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value >= 0) setDraft((prev) => ({ ...prev, [key]: value }));
+              }}
+              className="w-16 bg-zinc-950/50 border border-zinc-800 rounded px-2 py-1 text-zinc-300 text-center disabled:opacity-40"
+            />
+          </label>
+        ))}
+      </div>
+
+      <PreviewPlayer values={draft} wpm={wpm} />
+
+      {isReadOnly ? (
+        <div className="text-xs text-zinc-600 text-center">
+          Built-in profile. Use “+ New” to make an editable copy.
+        </div>
+      ) : (
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onDelete}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-zinc-800/50 text-zinc-400 hover:bg-red-900/40 hover:text-red-300 border border-zinc-700/50 transition-colors"
+          >
+            Delete
+          </button>
+          <button
+            onClick={() => onSave({ name: name.trim() || profile.name, values: draft })}
+            disabled={!isDirty}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-amber-600/80 text-white hover:bg-amber-500/80 transition-colors disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * PauseProfileEditor - pick, create, edit and delete pause profiles
+ *
+ * Selecting a profile applies it straight away; edits to a custom profile
+ * apply on Save. The preview replays a sample sentence with the unsaved values.
+ */
+export const PauseProfileEditor: React.FC<PauseProfileEditorProps> = ({
+  profiles,
+  activeKey,
+  wpm,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDelete,
+}) => {
+  const activeCustom = profiles.find((p) => p.id === activeKey) ?? null;
+  const activeValues = resolvePauseProfile(activeKey, profiles);
+  const options = [
+    ...(Object.keys(PAUSE_PROFILES) as BuiltInPauseProfile[]).map((key) => ({ key, name: BUILT_IN_NAMES[key] })),
+    ...profiles.map((p) => ({ key: p.id, name: p.name })),
+  ];
+  // Unknown keys (e.g. a profile deleted elsewhere) resolve to Normal
+  const selectedKey = activeCustom || isBuiltInPauseProfile(activeKey) ? activeKey : 'normal';
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-center gap-1">
+        {options.map(({ key, name }) => (
+          <button
+            key={key}
+            onClick={() => onSelect(key)}
+            className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+              selectedKey === key
+                ? 'bg-amber-600/80 text-white'
+                : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700/50 hover:text-white border border-zinc-700/50'
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+        <button
+          onClick={() => onCreate(`Custom ${profiles.length + 1}`, activeValues)}
+          className="px-3 py-1.5 rounded text-sm font-medium transition-colors text-zinc-500 hover:text-white border border-dashed border-zinc-700/50"
+        >
+          + New
+        </button>
+      </div>
+
+      <ProfileForm
+        key={activeCustom ? `${activeCustom.id}:${activeCustom.updatedAt.getTime()}` : selectedKey}
+        profile={activeCustom}
+        values={activeValues}
+        wpm={wpm}
+        onSave={(updates) => activeCustom && onUpdate(activeCustom.id, updates)}
+        onDelete={() => activeCustom && onDelete(activeCustom.id)}
+      />
+    </div>
+  );
+};
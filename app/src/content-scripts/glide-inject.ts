@@ -4,38 +4,85 @@
  */
 
 import * as Readability from '@mozilla/readability';
-import { tokenize } from '../lib/rsvp/tokenizer';
+import { tokenize, buildWordOffsets, tokenIndexForWord } from '../lib/rsvp/tokenizer';
+import { PlaybackController } from '../lib/rsvp/playback';
+import { detectLanguage, isRTLLanguage } from '../lib/rsvp/segmenter';
+import { splitAtORP, preserveJoining } from '../lib/rsvp/utils';
+import { resolveNavigationTarget, type NavigationTarget } from '../lib/rsvp/navigation';
+import { detectChapters, chapterStatuses, formatTimeLeft } from '../lib/rsvp/chapters';
+import { simulatePlayback, scaleTimeline, type PlaybackTimeline } from '../lib/rsvp/playback';
+import { resumePoint, formatResumeLabel, isResumablePosition } from '../lib/rsvp/resume';
+import { hashContent } from '../lib/storage/identity';
+import { getPagePosition, savePagePosition } from '../lib/storage/page-position-store';
+import { getReaderSettings, DEFAULT_READER_SETTINGS, type ReaderSettings } from '../lib/storage/reader-settings-store';
+import { extractFromHtml } from '../lib/extract/non-linear';
+import type { Chapter, NonLinearBlock, TextHeading, Token } from '../types';
 
 // Track if Glide Mode is currently active
 let isGlideActive = false;
 let glideOverlay: HTMLDivElement | null = null;
+let playback: PlaybackController | null = null;
+
+interface PageContent {
+  title: string;
+  text: string;
+  language: string;
+  blocks: NonLinearBlock[];
+  headings: TextHeading[];
+}
+
+// Position saves while playing are at least this far apart
+const POSITION_SAVE_INTERVAL_MS = 3000;
+
+// Navigation buttons shown in the overlay controls
+const NAV_BUTTONS: Array<{ target: NavigationTarget; label: string; hint: string }> = [
+  { target: 'paragraph-prev', label: '« ¶', hint: 'Previous paragraph (Shift+←)' },
+  { target: 'sentence-prev', label: '‹', hint: 'Previous sentence (←)' },
+  { target: 'sentence-start', label: '↺', hint: 'Restart sentence (R)' },
+  { target: 'sentence-next', label: '›', hint: 'Next sentence (→)' },
+  { target: 'paragraph-next', label: '¶ »', hint: 'Next paragraph (Shift+→)' },
+];
 
 /**
  * Extract main content from current page using Readability
+ * Language comes from the article's or page's lang attribute, else the text.
+ * Tables, figures and display math in the article become non-linear blocks;
+ * its h1-h3 headings become chapters (plain-text pages are scanned instead).
  */
-function extractPageContent(): { title: string; text: string } {
+function extractPageContent(): PageContent {
   const documentClone = document.cloneNode(true) as Document;
-  const article = (Readability as unknown as { parse: (doc: Document, options?: unknown) => { title?: string; textContent?: string } | null }).parse(documentClone, {
+  const article = (Readability as unknown as { parse: (doc: Document, options?: unknown) => { title?: string; content?: string; textContent?: string; lang?: string } | null }).parse(documentClone, {
     charThreshold: 0,
   });
+  const pageLang = document.documentElement.lang;
 
   if (!article) {
+    const text = document.body.innerText;
     return {
       title: document.title,
-      text: document.body.innerText,
+      text,
+      language: detectLanguage(text, pageLang),
+      blocks: [],
+      headings: [],
     };
   }
 
+  const { text, blocks, headings = [] } = article.content
+    ? extractFromHtml(article.content)
+    : { text: article.textContent || '', blocks: [] };
   return {
     title: article.title || document.title,
-    text: article.textContent || '',
+    text,
+    language: detectLanguage(text, article.lang || pageLang),
+    blocks,
+    headings,
   };
 }
 
 /**
  * Create Glide Mode overlay
  */
-function createGlideOverlay(content: { title: string; text: string }): void {
+function createGlideOverlay(content: PageContent, settings: ReaderSettings): void {
   // Remove existing overlay if present
   removeGlideOverlay();
 
@@ -133,6 +180,14 @@ function createGlideOverlay(content: { title: string; text: string }): void {
       position: relative;
     }
 
+    .glide-word-inner {
+      white-space: pre;
+    }
+
+    .glide-word-inner[dir="rtl"] {
+      letter-spacing: normal;
+    }
+
     .glide-word .prefix {
       color: rgba(255, 255, 255, 0.7);
     }
@@ -146,6 +201,53 @@ function createGlideOverlay(content: { title: string; text: string }): void {
       color: rgba(255, 255, 255, 0.7);
     }
 
+    .glide-marker {
+      color: rgba(255, 255, 255, 0.35);
+      font-size: 32px;
+      font-weight: 400;
+      letter-spacing: 0.2em;
+      text-transform: uppercase;
+    }
+
+    .glide-block {
+      max-width: 720px;
+      font-size: 16px;
+      font-weight: 400;
+      color: rgba(255, 255, 255, 0.85);
+    }
+
+    .glide-block table {
+      border-collapse: collapse;
+      margin: 0 auto;
+    }
+
+    .glide-block td {
+      border: 1px solid #333;
+      padding: 4px 10px;
+      text-align: left;
+    }
+
+    .glide-block tr:first-child td {
+      background: #222;
+      font-weight: 600;
+    }
+
+    .glide-block img {
+      max-width: 100%;
+      max-height: 50vh;
+    }
+
+    .glide-block .equation {
+      font-family: monospace;
+      font-size: 28px;
+    }
+
+    .glide-block figcaption {
+      margin-top: 8px;
+      color: rgba(255, 255, 255, 0.5);
+      font-size: 14px;
+    }
+
     .glide-orp-line {
       position: absolute;
       left: 50%;
@@ -157,6 +259,144 @@ function createGlideOverlay(content: { title: string; text: string }): void {
       pointer-events: none;
     }
 
+    .glide-resume {
+      position: absolute;
+      top: 24px;
+      left: 50%;
+      transform: translateX(-50%);
+      max-width: 90%;
+      background: rgba(20, 20, 20, 0.96);
+      border: 1px solid #333;
+      border-radius: 8px;
+      padding: 14px 18px;
+      z-index: 3;
+      color: #ddd;
+      font-size: 14px;
+    }
+
+    .glide-resume[hidden] {
+      display: none;
+    }
+
+    .glide-resume-actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
+      margin-top: 10px;
+    }
+
+    .glide-resume-actions button {
+      background: #333;
+      border: 1px solid #444;
+      border-radius: 4px;
+      color: #ccc;
+      font-size: 13px;
+      cursor: pointer;
+      padding: 6px 12px;
+    }
+
+    .glide-resume-actions button:hover {
+      color: #fff;
+      border-color: #f55;
+    }
+
+    .glide-resume-actions button.primary {
+      background: #f55;
+      border-color: #f55;
+      color: #fff;
+    }
+
+    .glide-toc-toggle {
+      background: transparent;
+      border: 1px solid #444;
+      border-radius: 4px;
+      color: #ccc;
+      font-size: 13px;
+      cursor: pointer;
+      padding: 4px 10px;
+      margin-right: 12px;
+    }
+
+    .glide-toc-toggle:hover {
+      color: #fff;
+      border-color: #f55;
+    }
+
+    .glide-toc {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      left: 0;
+      width: 320px;
+      max-width: 85vw;
+      overflow-y: auto;
+      background: rgba(20, 20, 20, 0.96);
+      border-right: 1px solid #333;
+      padding: 12px 8px;
+      z-index: 2;
+    }
+
+    .glide-toc[hidden] {
+      display: none;
+    }
+
+    .glide-toc-row {
+      display: block;
+      width: 100%;
+      background: transparent;
+      border: none;
+      border-radius: 6px;
+      color: #ccc;
+      text-align: left;
+      padding: 8px 10px;
+      cursor: pointer;
+      font-size: 14px;
+    }
+
+    .glide-toc-row:hover,
+    .glide-toc-row:focus {
+      background: #262626;
+      outline: none;
+    }
+
+    .glide-toc-row.current {
+      background: rgba(255, 85, 85, 0.12);
+      color: #fff;
+    }
+
+    .glide-toc-row.done {
+      color: #777;
+    }
+
+    .glide-toc-head {
+      display: flex;
+      justify-content: space-between;
+      gap: 12px;
+    }
+
+    .glide-toc-title {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .glide-toc-meta {
+      flex-shrink: 0;
+      color: #888;
+      font-size: 12px;
+    }
+
+    .glide-toc-track {
+      height: 2px;
+      margin-top: 6px;
+      background: #333;
+    }
+
+    .glide-toc-fill {
+      height: 100%;
+      background: linear-gradient(90deg, #f55, #ff8c00);
+    }
+
     .glide-controls {
       padding: 16px;
       display: flex;
@@ -180,6 +420,11 @@ function createGlideOverlay(content: { title: string; text: string }): void {
       background: #444;
     }
 
+    .glide-nav-btn {
+      padding: 12px 14px;
+      color: #aaa;
+    }
+
     .glide-wpm {
       display: flex;
       align-items: center;
@@ -217,7 +462,18 @@ function createGlideOverlay(content: { title: string; text: string }): void {
     removeGlideOverlay();
   };
 
-  header.appendChild(title);
+  // Chapters toggle; the panel itself lives in the content area
+  const tocBtn = document.createElement('button');
+  tocBtn.className = 'glide-toc-toggle';
+  tocBtn.textContent = '☰ Chapters';
+  tocBtn.title = 'Chapters (T)';
+
+  const headerStart = document.createElement('div');
+  headerStart.style.cssText = 'display: flex; align-items: center; min-width: 0;';
+  headerStart.appendChild(tocBtn);
+  headerStart.appendChild(title);
+
+  header.appendChild(headerStart);
   header.appendChild(closeBtn);
 
   // Progress bar
@@ -239,7 +495,17 @@ function createGlideOverlay(content: { title: string; text: string }): void {
   wordDisplay.id = 'glide-word-display';
   wordDisplay.innerHTML = '<div class="glide-orp-line"></div><div style="transform: translateX(-50%)">Press Play to Start</div>';
 
+  const tocPanel = document.createElement('nav');
+  tocPanel.className = 'glide-toc';
+  tocPanel.hidden = true;
+
+  const resumePanel = document.createElement('div');
+  resumePanel.className = 'glide-resume';
+  resumePanel.hidden = true;
+
   contentArea.appendChild(wordDisplay);
+  contentArea.appendChild(tocPanel);
+  contentArea.appendChild(resumePanel);
 
   // Controls
   const controls = document.createElement('div');
@@ -267,7 +533,19 @@ function createGlideOverlay(content: { title: string; text: string }): void {
   wpmControl.appendChild(wpmLabel);
   wpmControl.appendChild(wpmInput);
 
+  // Sentence / paragraph navigation, either side of the play button
+  const navButtons = NAV_BUTTONS.map(({ target, label, hint }) => {
+    const btn = document.createElement('button');
+    btn.className = 'glide-btn glide-nav-btn';
+    btn.textContent = label;
+    btn.title = hint;
+    btn.dataset.target = target;
+    return btn;
+  });
+
+  navButtons.slice(0, 3).forEach((btn) => controls.appendChild(btn));
   controls.appendChild(playBtn);
+  navButtons.slice(3).forEach((btn) => controls.appendChild(btn));
   controls.appendChild(wpmControl);
 
   overlay.appendChild(header);
@@ -282,13 +560,17 @@ function createGlideOverlay(content: { title: string; text: string }): void {
   glideOverlay = container;
 
   // Set up RSVP engine
-  setupRSVPEngine(content.text, progressBar, wordDisplay, playBtn, wpmInput);
+  setupRSVPEngine(content, settings, progressBar, wordDisplay, playBtn, navButtons, wpmInput, tocBtn, tocPanel, resumePanel);
 }
 
 /**
  * Remove Glide Mode overlay
  */
 function removeGlideOverlay(): void {
+  // Pausing saves the reading position
+  playback?.pause();
+  playback?.dispose();
+  playback = null;
   if (glideOverlay && glideOverlay.parentNode) {
     glideOverlay.parentNode.removeChild(glideOverlay);
     glideOverlay = null;
@@ -296,114 +578,394 @@ function removeGlideOverlay(): void {
   isGlideActive = false;
 }
 
+/**
+ * Build the snapshot frame for a table, figure or equation token
+ * Built with DOM nodes rather than innerHTML since the content comes from the page.
+ */
+function createBlockSnapshot(block: NonLinearBlock): HTMLElement {
+  const figure = document.createElement('figure');
+  figure.className = 'glide-block';
+
+  if (block.kind === 'table' && block.rows) {
+    const table = document.createElement('table');
+    block.rows.forEach((row) => {
+      const tr = table.insertRow();
+      row.forEach((cell) => {
+        tr.insertCell().textContent = cell;
+      });
+    });
+    figure.appendChild(table);
+  } else if (block.kind === 'figure' && block.src) {
+    const img = document.createElement('img');
+    img.src = block.src;
+    img.alt = block.caption || '';
+    figure.appendChild(img);
+  } else if (block.kind === 'equation') {
+    const equation = document.createElement('div');
+    equation.className = 'equation';
+    equation.textContent = block.source || '';
+    figure.appendChild(equation);
+  }
+
+  if (block.caption) {
+    const caption = document.createElement('figcaption');
+    caption.textContent = block.caption;
+    figure.appendChild(caption);
+  }
+
+  return figure;
+}
+
+/**
+ * Render a marker or snapshot token in place of a word
+ * Returns false for ordinary word tokens.
+ */
+function renderNonLinearToken(token: Token, wordDisplay: HTMLElement): boolean {
+  if (token.block) {
+    wordDisplay.replaceChildren(createBlockSnapshot(token.block));
+    return true;
+  }
+  if (token.kind === 'marker') {
+    const marker = document.createElement('div');
+    marker.className = 'glide-marker';
+    marker.textContent = token.text;
+    wordDisplay.replaceChildren(marker);
+    return true;
+  }
+  return false;
+}
+
 /**
  * Set up RSVP reading engine
  */
 function setupRSVPEngine(
-  text: string,
+  content: PageContent,
+  settings: ReaderSettings,
   progressBar: HTMLElement,
   wordDisplay: HTMLElement,
   playBtn: HTMLElement,
-  wpmInput: HTMLInputElement
+  navButtons: HTMLButtonElement[],
+  wpmInput: HTMLInputElement,
+  tocBtn: HTMLButtonElement,
+  tocPanel: HTMLElement,
+  resumePanel: HTMLElement
 ): void {
-  const tokens = tokenize(text);
-  let currentIndex = 0;
-  let isPlaying = false;
-  let timer: number | null = null;
+  const { text, language, blocks, headings } = content;
+  const tokens = tokenize(text, settings.pauseProfile, {
+    language,
+    blocks,
+    nonLinear: settings.nonLinearPolicy,
+  });
+  const chapters = detectChapters(text, tokens, headings);
+
+  // Progress fills from the right for RTL documents
+  if (isRTLLanguage(language) && progressBar.parentElement) {
+    progressBar.parentElement.dir = 'rtl';
+  }
+
+  const controller = new PlaybackController({ tokens, wpm: parseInt(wpmInput.value, 10) || 300 });
+  playback = controller;
+
+  // One simulated playback, built when a time-left readout first needs it
+  // and scaled to later WPMs
+  let base: { wpm: number; timeline: PlaybackTimeline } | null = null;
+  let cached: { wpm: number; timeline: PlaybackTimeline } | null = null;
+  function getTimeline(): PlaybackTimeline {
+    const { wpm } = controller.getState();
+    base ??= { wpm, timeline: simulatePlayback(tokens, wpm) };
+    if (cached?.wpm !== wpm) cached = { wpm, timeline: scaleTimeline(base.timeline, tokens, base.wpm, wpm) };
+    return cached.timeline;
+  }
+
+  const toc = createChapterPanel(controller, tokens, chapters, tocPanel, getTimeline);
+  tocBtn.onclick = () => toc.toggle();
+  tocBtn.hidden = chapters.length <= 1;
+
+  // The reading position is kept per page: saved on pause, end and seeks
+  // while paused, and every few seconds while playing
+  const contentHash = hashContent(text);
+  const wordOffsets = buildWordOffsets(tokens);
+  const totalWords = wordOffsets[tokens.length];
+  let lastSavedAt = 0;
+  function savePosition(): void {
+    const { index, isComplete } = controller.getState();
+    lastSavedAt = Date.now();
+    savePagePosition(location.href, contentHash, isComplete ? totalWords : wordOffsets[index], totalWords).catch(() => {
+      // After the extension reloads, this page's context is invalidated and
+      // storage rejects; the position simply isn't saved
+    });
+  }
+  controller.on('pause', savePosition);
+  controller.on('end', savePosition);
+  controller.on('seek', () => {
+    if (!controller.getState().isPlaying) savePosition();
+  });
+  controller.on('token', () => {
+    if (Date.now() - lastSavedAt >= POSITION_SAVE_INTERVAL_MS) savePosition();
+  });
+
+  // A page read before reopens at its saved position, with the prompt
+  // offering to start over or at the chapter start instead
+  getPagePosition(location.href, contentHash).then((saved) => {
+    if (!saved || playback !== controller || controller.getState().isPlaying) return;
+    if (!isResumablePosition(saved.wordIndex, totalWords)) return;
+    const index = tokenIndexForWord(wordOffsets, saved.wordIndex);
+    controller.seek(index);
+    showResumePrompt(controller, tokens, chapters, index, getTimeline(), resumePanel);
+  });
 
   function updateWordDisplay(): void {
-    if (currentIndex >= tokens.length) {
-      stopReading();
+    const { index } = controller.getState();
+    const token = tokens[index];
+    if (!token) return;
+
+    const progress = (wordOffsets[index] / Math.max(1, totalWords)) * 100;
+    if (renderNonLinearToken(token, wordDisplay)) {
+      progressBar.style.width = `${progress}%`;
       return;
     }
 
-    const token = tokens[currentIndex];
-    const prefix = token.text.slice(0, token.orpIndex);
-    const orp = token.text[token.orpIndex] || '';
-    const suffix = token.text.slice(token.orpIndex + 1);
-
-    // Calculate approximate character widths for alignment
-    const fontSize = parseInt(wordDisplay.style?.fontSize || '64', 10);
-    const avgCharWidth = fontSize * 0.6; // Approximate width ratio
-    const prefixWidth = prefix.length * avgCharWidth;
-    const orpWidth = avgCharWidth;
-    const orpOffset = prefixWidth + (orpWidth / 2);
+    const { prefix, pivot: orp, suffix } = preserveJoining(splitAtORP(token.text, token.orpIndex));
 
     wordDisplay.innerHTML = `
       <div class="glide-orp-line"></div>
-      <div style="transform: translateX(calc(-50% + ${orpOffset}px))">
+      <div class="glide-word-inner" dir="${token.direction}">
         <span class="prefix">${prefix}</span><span class="orp">${orp}</span><span class="suffix">${suffix}</span>
       </div>
     `;
 
+    // Shift the word so the pivot's centre sits on the ORP line. Measuring
+    // the rendered pivot works for both directions: in RTL the prefix lays
+    // out to the right of the pivot, so the shift comes out mirrored.
+    const inner = wordDisplay.querySelector<HTMLElement>('.glide-word-inner');
+    const orpSpan = wordDisplay.querySelector<HTMLElement>('.orp');
+    if (inner && orpSpan) {
+      const innerRect = inner.getBoundingClientRect();
+      const orpRect = orpSpan.getBoundingClientRect();
+      const shift = (innerRect.left + innerRect.width / 2) - (orpRect.left + orpRect.width / 2);
+      inner.style.transform = `translateX(${shift}px)`;
+    }
+
     // Update progress
-    const progress = (currentIndex / tokens.length) * 100;
     progressBar.style.width = `${progress}%`;
   }
 
-  function tick(): void {
-    if (!isPlaying) return;
-
-    updateWordDisplay();
-    currentIndex++;
-
-    const wpm = parseInt(wpmInput.value, 10);
-    const baseMs = 60000 / wpm;
-    const ms = baseMs * (1 + tokens[currentIndex]?.pauseMultiplier || 0);
+  // The overlay is a view over the controller: redraw on every frame and state change
+  controller.on('token', updateWordDisplay);
+  controller.on('seek', updateWordDisplay);
+  controller.on('change', ({ isPlaying, isComplete }) => {
+    playBtn.textContent = isPlaying ? '⏸ Pause' : isComplete ? '↺ Again' : '▶ Play';
+  });
 
-    timer = window.setTimeout(tick, ms);
+  function togglePlayback(): void {
+    if (controller.getState().isComplete) {
+      controller.restart();
+    }
+    controller.toggle();
   }
 
-  function startReading(): void {
-    if (isPlaying) return;
-    isPlaying = true;
-    playBtn.textContent = '⏸ Pause';
-    tick();
+  function navigate(target: NavigationTarget): void {
+    controller.seek(resolveNavigationTarget(tokens, chapters, controller.getState().index, target));
   }
 
-  function stopReading(): void {
-    isPlaying = false;
-    playBtn.textContent = '▶ Play';
-    if (timer !== null) {
-      clearTimeout(timer);
-      timer = null;
-    }
-  }
+  navButtons.forEach((btn) => {
+    btn.onclick = () => navigate(btn.dataset.target as NavigationTarget);
+  });
 
-  playBtn.onclick = () => {
-    if (isPlaying) {
-      stopReading();
-    } else {
-      startReading();
-    }
-  };
+  playBtn.onclick = togglePlayback;
+
+  wpmInput.addEventListener('input', () => {
+    const wpm = parseInt(wpmInput.value, 10);
+    if (wpm > 0) controller.setWpm(wpm);
+  });
 
   // Keyboard shortcuts
   document.addEventListener('keydown', (e) => {
-    if (!glideOverlay) return;
+    // Listeners from earlier overlays stay attached; only the live one responds
+    if (!glideOverlay || playback !== controller) return;
+
+    // The open chapter panel takes the keyboard
+    if (toc.isOpen()) {
+      toc.handleKey(e);
+      return;
+    }
 
-    if (e.code === 'Space') {
+    if (e.code === 'KeyT' && chapters.length > 1) {
       e.preventDefault();
-      if (isPlaying) {
-        stopReading();
-      } else {
-        startReading();
-      }
+      toc.toggle();
+    } else if (e.code === 'Space') {
+      e.preventDefault();
+      togglePlayback();
     } else if (e.code === 'Escape') {
       e.preventDefault();
       removeGlideOverlay();
     } else if (e.code === 'ArrowLeft') {
       e.preventDefault();
-      currentIndex = Math.max(0, currentIndex - 10);
-      updateWordDisplay();
+      navigate(e.shiftKey ? 'paragraph-prev' : 'sentence-prev');
     } else if (e.code === 'ArrowRight') {
       e.preventDefault();
-      currentIndex = Math.min(tokens.length - 1, currentIndex + 10);
-      updateWordDisplay();
+      navigate(e.shiftKey ? 'paragraph-next' : 'sentence-next');
+    } else if (e.code === 'KeyR' && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      navigate('sentence-start');
+    } else if (e.code === 'BracketLeft') {
+      e.preventDefault();
+      navigate('chapter-prev');
+    } else if (e.code === 'BracketRight') {
+      e.preventDefault();
+      navigate('chapter-next');
     }
   });
 }
 
+/**
+ * Resume prompt: "Resume at 43% — Chapter 3 (~12 min left)"
+ * Playback already sits at the saved position; playing answers the prompt too.
+ */
+function showResumePrompt(
+  controller: PlaybackController,
+  tokens: Token[],
+  chapters: Chapter[],
+  index: number,
+  timeline: PlaybackTimeline,
+  panel: HTMLElement
+): void {
+  const point = resumePoint(tokens, chapters, index, timeline);
+  const chapterStart = point.chapter?.startTokenIndex ?? 0;
+
+  const label = document.createElement('div');
+  label.textContent = formatResumeLabel(point);
+  const actions = document.createElement('div');
+  actions.className = 'glide-resume-actions';
+
+  const unsubscribe = controller.on('play', () => close());
+  function close(): void {
+    unsubscribe();
+    panel.hidden = true;
+  }
+  function addAction(text: string, target: number | null, primary = false): void {
+    const button = document.createElement('button');
+    button.textContent = text;
+    if (primary) button.className = 'primary';
+    button.onclick = () => {
+      if (target !== null) controller.seek(target);
+      close();
+    };
+    actions.appendChild(button);
+  }
+
+  addAction('Resume', null, true);
+  addAction('Start over', 0);
+  if (point.chapter && chapterStart > 0 && chapterStart < point.index) {
+    addAction(`Start of ${point.chapter.title}`, chapterStart);
+  }
+
+  panel.replaceChildren(label, actions);
+  panel.hidden = false;
+}
+
+/**
+ * Chapter table of contents panel
+ * Rows are built once; progress and time left refresh on state changes
+ * while the panel is open. ↑/↓, Home/End move, Enter jumps, Escape/T close.
+ */
+function createChapterPanel(
+  controller: PlaybackController,
+  tokens: Token[],
+  chapters: Chapter[],
+  panel: HTMLElement,
+  getTimeline: () => PlaybackTimeline
+) {
+  const depths = new Map<string, number>();
+
+  const rows = chapters.map((chapter) => {
+    const row = document.createElement('button');
+    row.className = 'glide-toc-row';
+    // Sections indent under their chapter; parents always come first
+    const depth = chapter.parentId !== undefined ? (depths.get(chapter.parentId) ?? -1) + 1 : 0;
+    depths.set(chapter.id, depth);
+    row.style.paddingLeft = `${10 + depth * 14}px`;
+
+    const head = document.createElement('div');
+    head.className = 'glide-toc-head';
+    const title = document.createElement('span');
+    title.className = 'glide-toc-title';
+    title.textContent = chapter.title;
+    const meta = document.createElement('span');
+    meta.className = 'glide-toc-meta';
+    head.append(title, meta);
+
+    const track = document.createElement('div');
+    track.className = 'glide-toc-track';
+    const fill = document.createElement('div');
+    fill.className = 'glide-toc-fill';
+    track.appendChild(fill);
+
+    row.append(head, track);
+    row.onclick = () => {
+      controller.seek(chapter.startTokenIndex);
+      close();
+    };
+    panel.appendChild(row);
+    return { row, meta, fill };
+  });
+
+  function refresh(): void {
+    const { index, isComplete } = controller.getState();
+    chapterStatuses(chapters, tokens, index, getTimeline(), isComplete).forEach((status, i) => {
+      const { row, meta, fill } = rows[i];
+      row.classList.toggle('current', status.isCurrent);
+      row.classList.toggle('done', status.isDone);
+      meta.textContent = status.isDone ? 'Done ✓' : `${formatTimeLeft(status.msLeft)} left`;
+      fill.style.width = `${status.progress * 100}%`;
+    });
+  }
+
+  function open(): void {
+    refresh();
+    panel.hidden = false;
+    // Innermost current row: its Part is current too
+    const current = rows.filter(({ row }) => row.classList.contains('current')).pop() ?? rows[0];
+    current?.row.focus();
+  }
+
+  function close(): void {
+    panel.hidden = true;
+  }
+
+  controller.on('change', () => {
+    if (!panel.hidden) refresh();
+  });
+
+  return {
+    isOpen: () => !panel.hidden,
+    toggle: () => (panel.hidden ? open() : close()),
+    handleKey(e: KeyboardEvent): void {
+      // The overlay lives in a shadow root, which tracks its own focus
+      const { activeElement } = panel.getRootNode() as ShadowRoot | Document;
+      const focused = rows.findIndex(({ row }) => row === activeElement);
+      const focusRow = (i: number) => rows[Math.max(0, Math.min(rows.length - 1, i))]?.row.focus();
+
+      if (e.code === 'ArrowDown') {
+        e.preventDefault();
+        focusRow(focused + 1);
+      } else if (e.code === 'ArrowUp') {
+        e.preventDefault();
+        focusRow(focused - 1);
+      } else if (e.code === 'Home') {
+        e.preventDefault();
+        focusRow(0);
+      } else if (e.code === 'End') {
+        e.preventDefault();
+        focusRow(rows.length - 1);
+      } else if (e.code === 'Escape' || e.code === 'KeyT') {
+        e.preventDefault();
+        close();
+      }
+    },
+  };
+}
+
 /**
  * Toggle Glide Mode on/off
  */
@@ -414,7 +976,13 @@ function toggleGlideMode(): void {
     const content = extractPageContent();
     if (content.text.trim().length > 0) {
       isGlideActive = true;
-      createGlideOverlay(content);
+      // The app's pause profile and non-linear policy; defaults if storage is unreachable
+      getReaderSettings()
+        .catch(() => DEFAULT_READER_SETTINGS)
+        .then((settings) => {
+          // Toggled off while the settings loaded
+          if (isGlideActive) createGlideOverlay(content, settings);
+        });
     } else {
       alert('No readable content found on this page.');
     }
@@ -0,0 +1,298 @@
+/**
+ * EPUB extraction
+ *
+ * Unzips a DRM-free EPUB in the browser, reads the OPF spine documents in
+ * order and turns the EPUB 3 nav or EPUB 2 NCX table of contents into
+ * headings for chapter detection. Title, author and cover come from the
+ * package metadata.
+ */
+
+import { unzipSync, type Unzipped } from 'fflate';
+import type { NonLinearBlock, TextHeading } from '../../types';
+import { extractFromHtml, BLOCK_PLACEHOLDER, type ExtractedContent } from './non-linear';
+
+export interface EpubContent extends ExtractedContent {
+  title?: string;
+  author?: string;
+  cover?: string; // Data URL
+}
+
+interface ManifestItem {
+  path: string; // Entry in the archive
+  mediaType: string;
+  properties: string[];
+}
+
+interface TocEntry {
+  title: string;
+  path: string;
+  fragment?: string;
+  level: number;
+}
+
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const OPF_NS = 'http://www.idpf.org/2007/opf';
+const OPS_NS = 'http://www.idpf.org/2007/ops';
+
+// Font obfuscation is the only encryption a DRM-free EPUB may use
+const FONT_OBFUSCATION = new Set(['http://www.idpf.org/2008/embedding', 'http://ns.adobe.com/pdf/enc#RC']);
+
+// TOC entries deeper than this are left out of the chapters
+const MAX_TOC_LEVEL = 3;
+// Larger covers aren't stored with the document
+const MAX_COVER_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Extract reading text from an EPUB file's bytes
+ * @throws Error if the file isn't a readable, DRM-free EPUB
+ */
+export function extractFromEpub(data: ArrayBuffer): EpubContent {
+  let files: Unzipped;
+  try {
+    files = unzipSync(new Uint8Array(data));
+  } catch {
+    throw new Error('This file is not a valid EPUB.');
+  }
+  if (isDrmProtected(files)) {
+    throw new Error('This EPUB is DRM-protected and can\'t be read.');
+  }
+
+  const container = readText(files, 'META-INF/container.xml');
+  const opfPath = container
+    ? byName(parseXml(container, 'application/xml'), 'rootfile')[0]?.getAttribute('full-path')
+    : null;
+  const opfSource = opfPath ? readText(files, opfPath) : null;
+  if (!opfPath || !opfSource) {
+    throw new Error('This EPUB has no package document.');
+  }
+  const opf = parseXml(opfSource, 'application/xml');
+
+  const manifest = new Map<string, ManifestItem>();
+  for (const item of byName(opf, 'item')) {
+    const href = item.getAttribute('href');
+    if (!href) continue;
+    manifest.set(item.getAttribute('id') ?? href, {
+      path: resolvePath(opfPath, href).path,
+      mediaType: item.getAttribute('media-type') ?? '',
+      properties: (item.getAttribute('properties') ?? '').split(/\s+/),
+    });
+  }
+
+  // Non-linear items (pop-up notes, answer keys) aren't part of the reading order
+  const spine = byName(opf, 'itemref')
+    .filter((ref) => ref.getAttribute('linear') !== 'no')
+    .map((ref) => manifest.get(ref.getAttribute('idref') ?? ''))
+    .filter((item): item is ManifestItem => !!item && /html/.test(item.mediaType));
+
+  const toc = readToc(files, opf, manifest);
+  const anchorIds = new Map<string, Set<string>>();
+  for (const entry of toc) {
+    if (entry.fragment) anchorIds.set(entry.path, (anchorIds.get(entry.path) ?? new Set()).add(entry.fragment));
+  }
+
+  const parts: string[] = [];
+  const blocks: NonLinearBlock[] = [];
+  const htmlHeadings: TextHeading[] = [];
+  const itemStarts = new Map<string, number>();
+  const anchorOffsets = new Map<string, number>();
+  let length = 0;
+
+  for (const item of spine) {
+    const start = parts.length > 0 ? length + 1 : 0;
+    // Items without words (cover pages, image plates) are left out; TOC
+    // entries pointing at them start where the next text does
+    itemStarts.set(item.path, start);
+
+    const source = readText(files, item.path);
+    const body = source ? byName(parseXml(source, item.mediaType), 'body')[0] : undefined;
+    if (!body) continue;
+
+    const content = extractFromHtml(body, anchorIds.get(item.path));
+    if (content.text.split(BLOCK_PLACEHOLDER).join('').trim() === '') continue;
+
+    parts.push(content.text);
+    length = start + content.text.length;
+    // Image paths point inside the archive, so figures keep only their captions
+    blocks.push(...content.blocks.map((block) => (block.kind === 'figure' ? { ...block, src: undefined } : block)));
+    htmlHeadings.push(...(content.headings ?? []).map((heading) => ({ ...heading, offset: start + heading.offset })));
+    for (const [id, offset] of Object.entries(content.anchors)) {
+      anchorOffsets.set(`${item.path}#${id}`, start + offset);
+    }
+  }
+
+  const text = parts.join('\n');
+  if (text.trim() === '') {
+    throw new Error('No readable text found in this EPUB.');
+  }
+
+  // Sorting is stable, so a Part and its first Chapter at one offset stay in TOC order
+  const tocHeadings = toc
+    .flatMap((entry) => {
+      const anchor = entry.fragment ? anchorOffsets.get(`${entry.path}#${entry.fragment}`) : undefined;
+      const offset = anchor ?? itemStarts.get(entry.path);
+      return offset !== undefined ? [{ offset, title: entry.title, level: entry.level }] : [];
+    })
+    .sort((a, b) => a.offset - b.offset);
+
+  return {
+    text,
+    blocks,
+    headings: tocHeadings.length > 0 ? tocHeadings : htmlHeadings,
+    ...readMetadata(files, opf, manifest),
+  };
+}
+
+function readMetadata(
+  files: Unzipped,
+  opf: Document,
+  manifest: Map<string, ManifestItem>
+): Pick<EpubContent, 'title' | 'author' | 'cover'> {
+  const metas = byName(opf, 'meta');
+  const dc = (name: string) =>
+    Array.from(opf.getElementsByTagNameNS(DC_NS, name)).filter((el) => cleanText(el.textContent) !== '');
+
+  // Creators include editors and illustrators; authors are those marked 'aut', or all if none are marked
+  const creators = dc('creator').map((el) => {
+    const id = el.getAttribute('id');
+    const refined = id
+      ? metas.find((meta) => meta.getAttribute('refines') === `#${id}` && meta.getAttribute('property') === 'role')
+      : undefined;
+    const role = cleanText(refined?.textContent) || el.getAttributeNS(OPF_NS, 'role') || el.getAttribute('opf:role');
+    return { name: cleanText(el.textContent), role };
+  });
+  const authors = creators.some((creator) => creator.role === 'aut')
+    ? creators.filter((creator) => creator.role === 'aut')
+    : creators;
+
+  // EPUB 3 marks the cover in the manifest; EPUB 2 names it in a <meta>
+  const coverId = metas.find((meta) => meta.getAttribute('name') === 'cover')?.getAttribute('content');
+  const coverItem = Array.from(manifest.values()).find((item) => item.properties.includes('cover-image'))
+    ?? (coverId ? manifest.get(coverId) : undefined);
+  const coverBytes = coverItem?.mediaType.startsWith('image/') ? files[coverItem.path] : undefined;
+
+  return {
+    title: cleanText(dc('title')[0]?.textContent) || undefined,
+    author: authors.map((creator) => creator.name).join(', ') || undefined,
+    cover: coverItem && coverBytes && coverBytes.length <= MAX_COVER_BYTES
+      ? toDataUrl(coverBytes, coverItem.mediaType)
+      : undefined,
+  };
+}
+
+/**
+ * TOC entries in document order, from the EPUB 3 nav or else the EPUB 2 NCX
+ */
+function readToc(files: Unzipped, opf: Document, manifest: Map<string, ManifestItem>): TocEntry[] {
+  const nav = Array.from(manifest.values()).find((item) => item.properties.includes('nav'));
+  const navSource = nav ? readText(files, nav.path) : null;
+  if (nav && navSource) {
+    const entries = navEntries(parseXml(navSource, nav.mediaType), nav.path);
+    if (entries.length > 0) return entries;
+  }
+
+  const ncxId = byName(opf, 'spine')[0]?.getAttribute('toc');
+  const ncx = (ncxId ? manifest.get(ncxId) : undefined)
+    ?? Array.from(manifest.values()).find((item) => item.mediaType === 'application/x-dtbncx+xml');
+  const ncxSource = ncx ? readText(files, ncx.path) : null;
+  return ncx && ncxSource ? ncxEntries(parseXml(ncxSource, 'application/xml'), ncx.path) : [];
+}
+
+function navEntries(doc: Document, base: string): TocEntry[] {
+  const navs = byName(doc, 'nav');
+  const toc = navs.find((nav) =>
+    (nav.getAttributeNS(OPS_NS, 'type') || nav.getAttribute('epub:type') || '').split(/\s+/).includes('toc')
+  ) ?? navs[0];
+  const entries: TocEntry[] = [];
+
+  const visit = (list: Element, level: number) => {
+    for (const li of childrenNamed(list, 'li')) {
+      // Unlinked <span> entries only group their children
+      const link = childrenNamed(li, 'a')[0];
+      const href = link?.getAttribute('href');
+      const title = cleanText(link?.textContent);
+      if (href && title) entries.push({ title, level, ...resolvePath(base, href) });
+
+      const nested = childrenNamed(li, 'ol')[0];
+      if (nested && level < MAX_TOC_LEVEL) visit(nested, level + 1);
+    }
+  };
+  const list = toc ? childrenNamed(toc, 'ol')[0] : undefined;
+  if (list) visit(list, 1);
+  return entries;
+}
+
+function ncxEntries(doc: Document, base: string): TocEntry[] {
+  const entries: TocEntry[] = [];
+
+  const visit = (parent: Element, level: number) => {
+    for (const point of childrenNamed(parent, 'navPoint')) {
+      const label = childrenNamed(point, 'navLabel')[0];
+      const title = cleanText(label ? childrenNamed(label, 'text')[0]?.textContent : '');
+      const src = childrenNamed(point, 'content')[0]?.getAttribute('src');
+      if (src && title) entries.push({ title, level, ...resolvePath(base, src) });
+      if (level < MAX_TOC_LEVEL) visit(point, level + 1);
+    }
+  };
+  const navMap = byName(doc, 'navMap')[0];
+  if (navMap) visit(navMap, 1);
+  return entries;
+}
+
+/**
+ * Whether any entry is encrypted with something other than font obfuscation
+ */
+function isDrmProtected(files: Unzipped): boolean {
+  const encryption = readText(files, 'META-INF/encryption.xml');
+  if (!encryption) return false;
+  return byName(parseXml(encryption, 'application/xml'), 'EncryptionMethod')
+    .some((method) => !FONT_OBFUSCATION.has(method.getAttribute('Algorithm') ?? ''));
+}
+
+/**
+ * Archive path and fragment of an href relative to the file it appears in
+ */
+function resolvePath(base: string, href: string): { path: string; fragment?: string } {
+  const url = new URL(href, `http://epub/${base}`);
+  return {
+    path: decodeURIComponent(url.pathname.slice(1)),
+    fragment: url.hash ? decodeURIComponent(url.hash.slice(1)) : undefined,
+  };
+}
+
+function readText(files: Unzipped, path: string): string | null {
+  const bytes = files[path];
+  return bytes ? new TextDecoder().decode(bytes) : null;
+}
+
+/**
+ * Parse XML or XHTML; XHTML that isn't well-formed is read as HTML instead
+ */
+function parseXml(source: string, mediaType: string): Document {
+  const type = mediaType === 'text/html' ? 'text/html' : mediaType === 'application/xhtml+xml' ? mediaType : 'application/xml';
+  const doc = new DOMParser().parseFromString(source, type);
+  if (type === 'application/xhtml+xml' && doc.getElementsByTagName('parsererror').length > 0) {
+    return new DOMParser().parseFromString(source, 'text/html');
+  }
+  return doc;
+}
+
+// Elements by local name, whatever their namespace prefix
+function byName(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS('*', localName));
+}
+
+function childrenNamed(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter((el) => el.localName === localName);
+}
+
+function cleanText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function toDataUrl(bytes: Uint8Array, mediaType: string): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mediaType};base64,${btoa(binary)}`;
+}
@@ -0,0 +1,272 @@
+/**
+ * Non-linear content extraction
+ *
+ * Pulls tables, figures and display equations out of HTML or Markdown and
+ * replaces each with a BLOCK_PLACEHOLDER line, so the remaining text reads
+ * linearly and the tokenizer can apply the user's NonLinearPolicy.
+ */
+
+import type { NonLinearBlock, NonLinearPolicy, TextHeading } from '../../types';
+
+// U+FFFC OBJECT REPLACEMENT CHARACTER, alone on its own line
+export const BLOCK_PLACEHOLDER = '\uFFFC';
+
+export const DEFAULT_NON_LINEAR_POLICY: NonLinearPolicy = {
+  tables: 'skip',
+  figures: 'skip',
+  equations: 'skip',
+  showMarkers: true,
+  snapshotMs: 1200,
+  linearizeThreshold: 0.7,
+};
+
+export interface ExtractedContent {
+  text: string;
+  blocks: NonLinearBlock[];
+  headings?: TextHeading[]; // h1-h3 of HTML sources, or a PDF outline / EPUB TOC, in text order
+}
+
+const HEADING_LEVELS: Record<string, number> = { H1: 1, H2: 2, H3: 3 };
+
+/**
+ * Table complexity on a 0-1 scale (cells / 40), compared to linearizeThreshold
+ */
+export function tableComplexity(rows: string[][]): number {
+  const cells = rows.reduce((sum, row) => sum + row.length, 0);
+  return Math.min(1, cells / 40);
+}
+
+// ============================================
+// HTML
+// ============================================
+
+// Elements that start a new line in the extracted text
+const BLOCK_ELEMENTS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DIV', 'DL', 'DT',
+  'FIGCAPTION', 'FOOTER', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER',
+  'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'UL',
+]);
+
+// Elements whose content is never read
+const IGNORED_ELEMENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG']);
+
+const DISPLAY_MATH_SELECTOR =
+  'math[display="block"], .katex-display, .MathJax_Display, mjx-container[display="true"], script[type^="math/tex; mode=display"]';
+
+function cleanText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * TeX source for a math element when the renderer kept it, else its text
+ */
+function mathSource(el: Element): string {
+  const annotation = el.querySelector('annotation[encoding="application/x-tex"]');
+  if (annotation) return cleanText(annotation.textContent);
+  if (el.tagName === 'SCRIPT') return cleanText(el.textContent);
+  return cleanText(el.getAttribute('alttext') || el.textContent);
+}
+
+function tableRows(table: Element): string[][] {
+  return Array.from(table.querySelectorAll('tr'))
+    .map((tr) => Array.from(tr.querySelectorAll('th, td'), (cell) => cleanText(cell.textContent)))
+    .filter((row) => row.some(Boolean));
+}
+
+export interface HtmlContent extends ExtractedContent {
+  anchors: Record<string, number>; // Character offset of each requested element id found
+}
+
+/**
+ * Extract readable text and non-linear blocks from HTML
+ *
+ * @param html An HTML string (e.g. Readability's `content`) or a parsed root
+ * @param anchorIds Element ids (link targets) to report offsets for
+ */
+export function extractFromHtml(html: string | Element, anchorIds?: ReadonlySet<string>): HtmlContent {
+  const root = typeof html === 'string'
+    ? new DOMParser().parseFromString(html, 'text/html').body
+    : html;
+
+  const blocks: NonLinearBlock[] = [];
+  const lines: string[] = [];
+  const headingLines: Array<{ line: number; title: string; level: number }> = [];
+  const anchorLines: Record<string, number> = {};
+  let current = '';
+
+  const breakLine = () => {
+    const line = cleanText(current);
+    if (line) lines.push(line);
+    current = '';
+  };
+
+  const pushBlock = (block: NonLinearBlock) => {
+    breakLine();
+    blocks.push(block);
+    lines.push(BLOCK_PLACEHOLDER);
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const el = node as Element;
+    const tag = el.tagName.toUpperCase();
+    // An anchor inside a paragraph points at the paragraph's start
+    if (el.id && anchorIds?.has(el.id) && !(el.id in anchorLines)) anchorLines[el.id] = lines.length;
+    if (IGNORED_ELEMENTS.has(tag) && !el.matches(DISPLAY_MATH_SELECTOR)) return;
+
+    if (tag === 'TABLE') {
+      const rows = tableRows(el);
+      if (rows.length > 0) {
+        pushBlock({ kind: 'table', rows, caption: cleanText(el.querySelector('caption')?.textContent) || undefined });
+      }
+      return;
+    }
+
+    if (tag === 'FIGURE') {
+      const caption = cleanText(el.querySelector('figcaption')?.textContent) || undefined;
+      const table = el.querySelector('table');
+      const math = el.querySelector(DISPLAY_MATH_SELECTOR) || el.querySelector('math');
+      if (table) {
+        pushBlock({ kind: 'table', rows: tableRows(table), caption });
+      } else if (math) {
+        pushBlock({ kind: 'equation', source: mathSource(math), caption });
+      } else {
+        const img = el.querySelector('img');
+        pushBlock({ kind: 'figure', caption: caption || img?.getAttribute('alt') || undefined, src: img?.getAttribute('src') || undefined });
+      }
+      return;
+    }
+
+    if (tag === 'IMG') {
+      const alt = cleanText(el.getAttribute('alt'));
+      pushBlock({ kind: 'figure', caption: alt || undefined, src: el.getAttribute('src') || undefined });
+      return;
+    }
+
+    if (el.matches(DISPLAY_MATH_SELECTOR)) {
+      pushBlock({ kind: 'equation', source: mathSource(el) });
+      return;
+    }
+
+    // Inline math stays in the sentence as its source text
+    if (tag === 'MATH') {
+      current += ` ${mathSource(el)} `;
+      return;
+    }
+
+    if (tag === 'BR') {
+      breakLine();
+      return;
+    }
+
+    const isBlock = BLOCK_ELEMENTS.has(tag);
+    if (isBlock) breakLine();
+    const title = HEADING_LEVELS[tag] ? cleanText(el.textContent) : '';
+    if (title) headingLines.push({ line: lines.length, title, level: HEADING_LEVELS[tag] });
+    el.childNodes.forEach(walk);
+    if (isBlock) breakLine();
+  };
+
+  walk(root);
+  breakLine();
+
+  // Character offset of each line in the joined text
+  const lineOffsets: number[] = [];
+  lines.reduce((offset, line, i) => {
+    lineOffsets[i] = offset;
+    return offset + line.length + 1;
+  }, 0);
+  const headings = headingLines
+    .filter(({ line }) => line < lines.length)
+    .map(({ line, title, level }) => ({ offset: lineOffsets[line], title, level }));
+  const text = lines.join('\n');
+  // Anchors after the last line (e.g. on an empty trailing element) point at the end
+  const anchors = Object.fromEntries(
+    Object.entries(anchorLines).map(([id, line]) => [id, line < lines.length ? lineOffsets[line] : text.length])
+  );
+
+  return { text, blocks, headings, anchors };
+}
+
+// ============================================
+// MARKDOWN / PLAIN TEXT
+// ============================================
+
+const MD_TABLE_ROW = /^\s*\|.*\|\s*$/;
+const MD_TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const MD_IMAGE = /^\s*!\[([^\]]*)\]\(\s*([^)\s]+)[^)]*\)\s*$/;
+
+function parseTableRow(line: string): string[] {
+  return line.trim().replace(/^\||\|$/g, '').split('|').map((cell) => cell.trim());
+}
+
+/**
+ * Extract readable text and non-linear blocks from Markdown or plain text
+ * Recognises pipe tables, image lines and display math ($$...$$ or \[...\]).
+ */
+export function extractFromMarkdown(markdown: string): ExtractedContent {
+  const input = markdown.split(/\r?\n/);
+  const lines: string[] = [];
+  const blocks: NonLinearBlock[] = [];
+
+  for (let i = 0; i < input.length; i++) {
+    const line = input[i];
+
+    // Pipe table: header row followed by a --- separator row
+    if (MD_TABLE_ROW.test(line) && i + 1 < input.length && MD_TABLE_SEPARATOR.test(input[i + 1])) {
+      const rows = [parseTableRow(line)];
+      i += 2;
+      while (i < input.length && MD_TABLE_ROW.test(input[i])) {
+        rows.push(parseTableRow(input[i]));
+        i++;
+      }
+      i--;
+      blocks.push({ kind: 'table', rows });
+      lines.push(BLOCK_PLACEHOLDER);
+      continue;
+    }
+
+    const image = line.match(MD_IMAGE);
+    if (image) {
+      blocks.push({ kind: 'figure', caption: image[1].trim() || undefined, src: image[2] });
+      lines.push(BLOCK_PLACEHOLDER);
+      continue;
+    }
+
+    // Display math, single- or multi-line
+    const trimmed = line.trim();
+    const open = trimmed.startsWith('$$') ? '$$' : trimmed.startsWith('\\[') ? '\\[' : null;
+    if (open) {
+      const close = open === '$$' ? '$$' : '\\]';
+      let source = trimmed.slice(2);
+      let j = i;
+      while (!source.trimEnd().endsWith(close) && j + 1 < input.length) {
+        j++;
+        source += '\n' + input[j];
+      }
+      if (source.trimEnd().endsWith(close)) {
+        blocks.push({ kind: 'equation', source: source.trimEnd().slice(0, -2).trim() });
+        lines.push(BLOCK_PLACEHOLDER);
+        i = j;
+        continue;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return { text: lines.join('\n'), blocks };
+}
+
+/**
+ * Extract from pasted content, choosing HTML or Markdown by sniffing tags
+ */
+export function extractFromPaste(content: string): ExtractedContent {
+  const looksLikeHtml = /<\s*(table|p|div|figure|img|math|h[1-6]|ul|ol|br)\b[^>]*>/i.test(content);
+  return looksLikeHtml ? extractFromHtml(content) : extractFromMarkdown(content);
+}
@@ -0,0 +1,254 @@
+/**
+ * PDF layout cleanup
+ *
+ * Turns positioned text runs from pdf.js into reading text: runs become
+ * lines, running headers, footers and page numbers are dropped, hyphenated
+ * line breaks are joined (keeping the hyphen of compounds like "well-known")
+ * and lines are merged into paragraphs separated by blank lines.
+ */
+
+export interface PdfTextItem {
+  str: string;
+  x: number; // Left edge, PDF units
+  y: number; // Baseline, PDF units (origin bottom-left, so larger is higher)
+  width: number;
+  height: number; // Roughly the font size
+}
+
+export interface PdfLayout {
+  text: string;
+  pageOffsets: number[]; // Character offset where each page's text starts; -1 for pages without text
+}
+
+interface PdfLine {
+  text: string;
+  x: number;
+  y: number;
+  right: number;
+  height: number;
+}
+
+// Lines near the top or bottom of a page that may be running heads or folios
+const EDGE_LINES = 2;
+// Share of pages a repeated edge line must appear on to count as running
+const RUNNING_LINE_SHARE = 0.5;
+const MIN_PAGES_FOR_RUNNING = 3;
+// A line gap this much larger than usual starts a paragraph
+const PARAGRAPH_GAP_FACTOR = 1.5;
+// A line ending this far short of the right margin (share of text width) ends its paragraph
+const SHORT_LINE_SHARE = 0.15;
+
+const PAGE_NUMBER = [
+  /^(?:page\s+)?\d{1,4}(?:\s*(?:of|\/)\s*\d{1,4})?$/i,
+  /^[-–—]\s*\d{1,4}\s*[-–—]$/,
+  /^[ivxlc]{1,7}$/, // Front matter
+];
+const PARAGRAPH_END = /[.!?:"”’)]$/;
+const WORD = /\p{L}+(?:-\p{L}+)*-?/gu;
+
+// How a line joins the paragraph before it
+type LineBreak = 'space' | 'soft-hyphen' | 'hard-hyphen';
+
+/**
+ * Lay out every page's text runs as one text
+ */
+export function layoutPdfText(pages: PdfTextItem[][]): PdfLayout {
+  const pageLines = stripRunningLines(pages.map(buildLines));
+  const lineGap = medianLineGap(pageLines);
+  const vocabulary = collectWords(pageLines);
+
+  const paragraphs: string[] = [];
+  const pageOffsets: number[] = [];
+  let paragraph = '';
+  let length = 0; // Text length of the finished paragraphs, separators included
+  let previous: PdfLine | null = null;
+  let previousBlock = { left: 0, right: 0 };
+
+  const endParagraph = () => {
+    if (!paragraph) return;
+    length += paragraph.length + 2;
+    paragraphs.push(paragraph);
+    paragraph = '';
+  };
+
+  for (const lines of pageLines) {
+    if (lines.length === 0) {
+      pageOffsets.push(-1);
+      continue;
+    }
+    const block = {
+      left: Math.min(...lines.map((line) => line.x)),
+      right: Math.max(...lines.map((line) => line.right)),
+    };
+
+    lines.forEach((line, i) => {
+      if (previous) {
+        const sameFlow = i > 0;
+        const gap = previous.y - line.y;
+        const span = sameFlow ? block : previousBlock;
+        const isShort = previous.right < span.right - (span.right - span.left) * SHORT_LINE_SHARE;
+        const endsParagraph = PARAGRAPH_END.test(previous.text) && isShort;
+        if ((sameFlow && lineGap > 0 && gap > lineGap * PARAGRAPH_GAP_FACTOR) || endsParagraph) {
+          endParagraph();
+        }
+      }
+
+      if (i === 0) {
+        // Where joinLine will put this line: after a space or hyphen, or over a soft hyphen
+        const join = paragraph ? lineBreak(paragraph, line.text, vocabulary) : null;
+        const start = !join ? 0 : paragraph.length + { space: 1, 'soft-hyphen': -1, 'hard-hyphen': 0 }[join];
+        pageOffsets.push(length + start);
+      }
+      paragraph = joinLine(paragraph, line.text, vocabulary);
+      previous = line;
+    });
+    previousBlock = block;
+  }
+  endParagraph();
+
+  return { text: paragraphs.join('\n\n'), pageOffsets };
+}
+
+/**
+ * Group a page's runs into lines, top to bottom
+ */
+function buildLines(items: PdfTextItem[]): PdfLine[] {
+  const runs = items
+    .filter((item) => item.str.trim() !== '')
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Array<{ y: number; height: number; runs: PdfTextItem[] }> = [];
+
+  for (const run of runs) {
+    const line = lines.find((l) => Math.abs(l.y - run.y) < Math.max(l.height, run.height, 1) * 0.5);
+    if (line) {
+      line.runs.push(run);
+      line.height = Math.max(line.height, run.height);
+    } else {
+      lines.push({ y: run.y, height: run.height, runs: [run] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(({ y, height, runs: lineRuns }) => {
+      lineRuns.sort((a, b) => a.x - b.x);
+      let text = '';
+      let end = -Infinity;
+      for (const run of lineRuns) {
+        // Separate runs that leave a visible gap and don't carry their own space
+        const needsSpace = text !== '' && run.x - end > height * 0.15 && !/\s$/.test(text) && !/^\s/.test(run.str);
+        text += (needsSpace ? ' ' : '') + run.str;
+        end = run.x + run.width;
+      }
+      return {
+        text: text.replace(/\s+/g, ' ').trim(),
+        x: lineRuns[0].x,
+        y,
+        right: Math.max(...lineRuns.map((run) => run.x + run.width)),
+        height,
+      };
+    })
+    .filter((line) => line.text !== '');
+}
+
+/**
+ * Drop page numbers and lines repeated at the top or bottom of most pages
+ * Digits are ignored when comparing, so "Chapter 2 · 17" matches "Chapter 2 · 18".
+ * Only a page's first or last line can be a lone page number, so a year
+ * or list marker just inside the edge stays.
+ */
+function stripRunningLines(pages: PdfLine[][]): PdfLine[][] {
+  const key = (line: PdfLine) => line.text.toLowerCase().replace(/\d+/g, '#');
+  const edges = (lines: PdfLine[]) => ({
+    top: lines.slice(0, EDGE_LINES),
+    bottom: lines.slice(Math.max(EDGE_LINES, lines.length - EDGE_LINES)),
+  });
+
+  const pagesWithText = pages.filter((lines) => lines.length > 0).length;
+  const counts = { top: new Map<string, number>(), bottom: new Map<string, number>() };
+  for (const lines of pages) {
+    const { top, bottom } = edges(lines);
+    new Set(top.map(key)).forEach((k) => counts.top.set(k, (counts.top.get(k) ?? 0) + 1));
+    new Set(bottom.map(key)).forEach((k) => counts.bottom.set(k, (counts.bottom.get(k) ?? 0) + 1));
+  }
+  const isRunning = (count = 0) =>
+    pagesWithText >= MIN_PAGES_FOR_RUNNING && count >= Math.max(2, Math.ceil(pagesWithText * RUNNING_LINE_SHARE));
+
+  return pages.map((lines) => {
+    const { top, bottom } = edges(lines);
+    return lines.filter((line) => {
+      const where = top.includes(line) ? 'top' : bottom.includes(line) ? 'bottom' : null;
+      if (!where) return true;
+      const isOutermost = line === lines[0] || line === lines[lines.length - 1];
+      if (isOutermost && PAGE_NUMBER.some((pattern) => pattern.test(line.text))) return false;
+      return !isRunning(counts[where].get(key(line)));
+    });
+  });
+}
+
+/**
+ * Typical distance between consecutive lines of a page
+ */
+function medianLineGap(pages: PdfLine[][]): number {
+  const gaps = pages
+    .flatMap((lines) => lines.slice(1).map((line, i) => lines[i].y - line.y))
+    .filter((gap) => gap > 0)
+    .sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+}
+
+/**
+ * Lowercased words of the whole text, hyphenated compounds whole and split
+ * A line-end fragment and the line after it are left out, since either may
+ * be half a word.
+ */
+function collectWords(pages: PdfLine[][]): Set<string> {
+  const words = new Set<string>();
+  let afterHyphen = false;
+  for (const line of pages.flat()) {
+    const found = line.text.toLowerCase().match(WORD) ?? [];
+    found.forEach((word, i) => {
+      if (word.endsWith('-') || (i === 0 && afterHyphen)) return;
+      words.add(word);
+      word.split('-').forEach((part) => words.add(part));
+    });
+    afterHyphen = /\p{L}[-\u00AD]$/u.test(line.text);
+  }
+  return words;
+}
+
+/**
+ * Whether a line-end hyphen splits a word (soft) or belongs to a compound (hard)
+ * Soft hyphens always split. A hard hyphen comes before a capital or digit
+ * ("Anglo-Saxon", "COVID-19"), after a single letter or inside a compound
+ * ("e-mail", "state-of-the-art"; hyphenation splits neither) or between two
+ * words the text uses on their own ("well-known"), unless the text spells the
+ * joined word elsewhere.
+ */
+function lineBreak(paragraph: string, next: string, vocabulary: Set<string>): LineBreak {
+  if (/\p{L}\u00AD$/u.test(paragraph) && /^\p{L}/u.test(next)) return 'soft-hyphen';
+  if (!/\p{L}-$/u.test(paragraph) || !/^[\p{L}\d]/u.test(next)) return 'space';
+  if (!/^\p{Ll}/u.test(next)) return 'hard-hyphen';
+
+  const [, compound, head] = (/(-?)(\p{L}+)-$/u.exec(paragraph.toLowerCase()) ?? []) as string[];
+  const tail = (/^\p{L}+/u.exec(next)?.[0] ?? '').toLowerCase();
+  if (compound || head.length === 1) return 'hard-hyphen';
+  if (vocabulary.has(head + tail)) return 'soft-hyphen';
+  if (vocabulary.has(`${head}-${tail}`)) return 'hard-hyphen';
+  return vocabulary.has(head) && vocabulary.has(tail) ? 'hard-hyphen' : 'soft-hyphen';
+}
+
+/**
+ * Append a line to a paragraph, joining words hyphenated across the break
+ */
+function joinLine(paragraph: string, line: string, vocabulary: Set<string>): string {
+  if (!paragraph) return line;
+  switch (lineBreak(paragraph, line, vocabulary)) {
+    case 'soft-hyphen':
+      return paragraph.slice(0, -1) + line;
+    case 'hard-hyphen':
+      return paragraph + line;
+    default:
+      return `${paragraph} ${line}`;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * PDF extraction
+ *
+ * Reads a local PDF with pdf.js (its worker is bundled with the app, so
+ * nothing is fetched from a CDN), cleans the layout into paragraphs and
+ * turns the outline (bookmarks) into headings for chapter detection.
+ * Pages without a text layer but with images are reported as scanned.
+ */
+
+import { getDocument, GlobalWorkerOptions, OPS, type PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { TextHeading } from '../../types';
+import type { ExtractedContent } from './non-linear';
+import { layoutPdfText, type PdfTextItem } from './pdf-layout';
+
+GlobalWorkerOptions.workerSrc = workerSrc;
+
+export interface PdfContent extends ExtractedContent {
+  title?: string; // From the PDF's metadata
+  pageCount: number;
+  scannedPages: number[]; // 1-based pages that are images without a text layer
+}
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+// Outline entries deeper than this are left out of the chapters
+const MAX_OUTLINE_LEVEL = 3;
+
+const IMAGE_OPS = new Set<number>([
+  OPS.paintImageXObject,
+  OPS.paintInlineImageXObject,
+  OPS.paintImageMaskXObject,
+  OPS.paintImageXObjectRepeat,
+]);
+
+/**
+ * Extract reading text from a PDF file's bytes
+ * @param onPage Progress callback after each page is read
+ * @throws Error if no page has a text layer
+ */
+export async function extractFromPdf(
+  data: ArrayBuffer,
+  onPage?: (page: number, pageCount: number) => void
+): Promise<PdfContent> {
+  const pdf = await getDocument({ data }).promise;
+
+  try {
+    const pages: PdfTextItem[][] = [];
+    const scannedPages: number[] = [];
+
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const items = content.items
+        .filter((item): item is TextItem => 'str' in item)
+        .map((item) => ({
+          str: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height || Math.hypot(item.transform[2], item.transform[3]),
+        }));
+      pages.push(items);
+
+      // A page without text is scanned if it draws images, blank otherwise
+      if (!items.some((item) => item.str.trim() !== '')) {
+        const operators = await page.getOperatorList();
+        if (operators.fnArray.some((op) => IMAGE_OPS.has(op))) scannedPages.push(number);
+      }
+      page.cleanup();
+      onPage?.(number, pdf.numPages);
+    }
+
+    const { text, pageOffsets } = layoutPdfText(pages);
+    if (text.trim() === '') {
+      throw new Error(
+        scannedPages.length > 0
+          ? 'This PDF is scanned images without a text layer. Run it through OCR first.'
+          : 'No readable text found in this PDF.'
+      );
+    }
+
+    const { info } = await pdf.getMetadata();
+    const title = (info as { Title?: string }).Title?.trim() || undefined;
+
+    return {
+      text,
+      blocks: [],
+      headings: await outlineHeadings(pdf, text, pageOffsets),
+      title,
+      pageCount: pdf.numPages,
+      scannedPages,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Headings from the PDF outline, at the title's position on its page
+ * Nested bookmarks become deeper levels; entries that don't point at a
+ * page with text are skipped.
+ */
+async function outlineHeadings(pdf: PDFDocumentProxy, text: string, pageOffsets: number[]): Promise<TextHeading[]> {
+  const outline = await pdf.getOutline();
+  if (!outline) return [];
+
+  const headings: TextHeading[] = [];
+  const visit = async (nodes: OutlineNode[], level: number) => {
+    for (const node of nodes) {
+      const pageIndex = await destinationPage(pdf, node.dest);
+      const offset = pageIndex !== null ? headingOffset(text, pageOffsets, pageIndex, node.title) : -1;
+      const title = node.title.replace(/\s+/g, ' ').trim();
+      if (offset >= 0 && title) headings.push({ offset, title, level });
+      if (level < MAX_OUTLINE_LEVEL && node.items.length > 0) await visit(node.items, level + 1);
+    }
+  };
+  await visit(outline, 1);
+
+  // Outlines are usually in page order, but not always
+  return headings.sort((a, b) => a.offset - b.offset);
+}
+
+async function destinationPage(pdf: PDFDocumentProxy, dest: OutlineNode['dest']): Promise<number | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    const target = explicit?.[0];
+    if (typeof target === 'number') return target;
+    if (target && typeof target === 'object') return await pdf.getPageIndex(target);
+  } catch {
+    // Broken destinations are common in generated PDFs
+  }
+  return null;
+}
+
+/**
+ * Where a heading starts: its title on the page if found there, else the
+ * page start. Pages without text fall through to the next page that has some.
+ */
+function headingOffset(text: string, pageOffsets: number[], pageIndex: number, title: string): number {
+  let page = pageIndex;
+  while (page < pageOffsets.length && pageOffsets[page] < 0) page++;
+  if (page >= pageOffsets.length) return -1;
+
+  const start = pageOffsets[page];
+  const next = pageOffsets.slice(page + 1).find((offset) => offset >= 0) ?? text.length;
+  const words = title.trim().split(/\s+/).slice(0, 6).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const match = words.length > 0 ? new RegExp(words.join('\\s+'), 'i').exec(text.slice(start, next)) : null;
+  return match ? start + match.index : start;
+}
@@ -0,0 +1,140 @@
+/**
+ * Adaptive WPM
+ *
+ * Watches a PlaybackController and adjusts its speed: a step down after
+ * several rewinds in a short window, a step up after a long stretch read
+ * without pausing or seeking. Speed never leaves the floor/ceiling bounds.
+ */
+
+import type { AdaptiveWpmSettings, SpeedChange } from '../../types';
+import type { PlaybackController } from './playback';
+import { realClock, type Clock } from './clock';
+
+export interface AdaptiveSpeedOptions {
+  /** Rewinds within rewindWindowMs that trigger a slowdown */
+  rewindLimit?: number;
+  rewindWindowMs?: number;
+  /** Uninterrupted playback that triggers a speed-up */
+  streakMs?: number;
+  clock?: Clock;
+}
+
+const DEFAULT_REWIND_LIMIT = 3;
+const DEFAULT_REWIND_WINDOW_MS = 30_000;
+const DEFAULT_STREAK_MS = 120_000;
+
+export class AdaptiveSpeed {
+  private settings: AdaptiveWpmSettings;
+  private readonly playback: PlaybackController;
+  private readonly clock: Clock;
+  private readonly rewindLimit: number;
+  private readonly rewindWindowMs: number;
+  private readonly streakMs: number;
+  private readonly onChange: (change: SpeedChange) => void;
+  private rewinds: number[] = [];
+  // A run of seeks with nothing in between is one gesture (e.g. scrubbing)
+  private seekRun: { from: number; to: number } | null = null;
+  // Start of the current uninterrupted stretch, or null while paused
+  private streakStart: number | null = null;
+  private unsubscribers: Array<() => void>;
+
+  /**
+   * @param onChange Called after every adaptive speed change
+   */
+  constructor(
+    playback: PlaybackController,
+    settings: AdaptiveWpmSettings,
+    onChange: (change: SpeedChange) => void,
+    options: AdaptiveSpeedOptions = {}
+  ) {
+    this.playback = playback;
+    this.settings = settings;
+    this.onChange = onChange;
+    this.clock = options.clock ?? realClock;
+    this.rewindLimit = options.rewindLimit ?? DEFAULT_REWIND_LIMIT;
+    this.rewindWindowMs = options.rewindWindowMs ?? DEFAULT_REWIND_WINDOW_MS;
+    this.streakMs = options.streakMs ?? DEFAULT_STREAK_MS;
+    if (playback.getState().isPlaying) this.streakStart = this.clock.now();
+
+    this.unsubscribers = [
+      playback.on('play', () => {
+        this.endSeekRun();
+        this.streakStart = this.clock.now();
+      }),
+      playback.on('pause', () => {
+        this.endSeekRun();
+        this.streakStart = null;
+      }),
+      playback.on('end', () => {
+        this.endSeekRun();
+        this.streakStart = null;
+      }),
+      playback.on('seek', ({ from, to }) => this.handleSeek(from, to)),
+      playback.on('token', () => {
+        this.endSeekRun();
+        this.handleToken();
+      }),
+    ];
+  }
+
+  /**
+   * Replace the bounds and step; takes effect on the next adjustment
+   */
+  setSettings(settings: AdaptiveWpmSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Stop watching playback
+   */
+  dispose(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  private handleSeek(from: number, to: number): void {
+    if (this.streakStart !== null) this.streakStart = this.clock.now();
+    this.seekRun = { from: this.seekRun?.from ?? from, to };
+  }
+
+  /**
+   * Count a finished seek run that ended behind where it started as one rewind
+   */
+  private endSeekRun(): void {
+    const run = this.seekRun;
+    this.seekRun = null;
+    if (!run || run.to >= run.from) return;
+
+    const now = this.clock.now();
+    this.rewinds = this.rewinds.filter((at) => now - at < this.rewindWindowMs);
+    this.rewinds.push(now);
+    if (this.rewinds.length >= this.rewindLimit) {
+      this.rewinds = [];
+      this.adjust(-this.settings.step, 'rewinds');
+    }
+  }
+
+  private handleToken(): void {
+    if (this.streakStart === null) return;
+
+    const now = this.clock.now();
+    if (now - this.streakStart >= this.streakMs) {
+      this.streakStart = now;
+      this.adjust(this.settings.step, 'streak');
+    }
+  }
+
+  private adjust(delta: number, reason: SpeedChange['reason']): void {
+    if (!this.settings.enabled) return;
+
+    const { wpm: from, index } = this.playback.getState();
+    const { floor, ceiling } = this.settings;
+    // Clamp only on the side being moved towards: a reader already below the
+    // floor isn't sped up by rewinds, nor one above the ceiling slowed by a streak
+    const to = delta < 0 ? Math.max(floor, from + delta) : Math.min(ceiling, from + delta);
+    if (delta < 0 ? to >= from : to <= from) return;
+
+    this.playback.setWpm(to);
+    this.onChange({ at: new Date(), from, to, reason, tokenIndex: index });
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Chapter table of contents
+ *
+ * Detects chapter headings, nests them into chapters and works out each
+ * chapter's progress and time left, for the TOC in the app and the
+ * extension overlay.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Chapter, TextHeading, Token } from '../../types';
+import { buildWordOffsets, tokenIndexAtOffset } from './tokenizer';
+import type { PlaybackTimeline } from './playback';
+
+export interface ChapterStatus {
+  chapter: Chapter;
+  depth: number; // 0 for top-level chapters
+  progress: number; // 0-1, by words
+  msLeft: number; // Playback time left in the chapter at the timeline's WPM
+  isDone: boolean;
+  isCurrent: boolean;
+}
+
+// Fallback sections when a text has no headings
+const SECTION_WORDS = 1000;
+// A paragraph this long may be split at a sentence boundary instead
+const LONG_PARAGRAPH_WORDS = 2 * SECTION_WORDS;
+
+// Heading lines are short
+const MAX_HEADING_CHARS = 80;
+const MAX_HEADING_WORDS = 10;
+const MAX_CAPS_HEADING_WORDS = 8;
+
+// Levels: Part 1, Chapter 2, numbered 2+ (1 → 2, 1.2 → 3, 1.2.3 → 4)
+const PART_LEVEL = 1;
+const CHAPTER_LEVEL = 2;
+
+const NUMBER_WORD =
+  '(?:one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth)(?:-[a-z]+)?';
+const ROMAN = '(?=[MDCLXVI])M{0,3}(?:C[MD]|D?C{0,3})(?:X[CL]|L?X{0,3})(?:I[XV]|V?I{0,3})';
+const NUMERAL = `(?:\\d+|${ROMAN}|${NUMBER_WORD})`;
+
+const MARKDOWN_HEADING = /^(#{1,3})\s+(.+?)(?:\s+#+)?$/;
+const PART_HEADING = new RegExp(`^(?:part|book)\\s+${NUMERAL}\\b`, 'i');
+const CHAPTER_HEADING = new RegExp(`^(?:chapter|chap\\.)\\s+${NUMERAL}\\b`, 'i');
+const ROMAN_HEADING = new RegExp(`^${ROMAN}(?:\\.\\s+\\S.*|\\.)?$`);
+const NUMBERED_HEADING = /^(\d{1,3}(?:\.\d{1,3})*)\.?\s+\p{Lu}/u;
+
+export interface HeadingStart {
+  index: number; // Token index the heading starts at
+  title: string;
+  level: number;
+}
+
+/**
+ * Nest headings into chapters
+ * A chapter runs until the next heading at its level or above, so a Part
+ * spans its Chapters; parentId points at the nearest enclosing heading.
+ * Levels needn't be contiguous (### straight under # nests one deep).
+ */
+export function buildChapterTree(headings: HeadingStart[], totalTokens: number): Chapter[] {
+  const chapters: Chapter[] = [];
+  const open: Chapter[] = [];
+
+  for (const heading of headings) {
+    while (open.length > 0 && open[open.length - 1].level >= heading.level) {
+      open.pop()!.endTokenIndex = heading.index;
+    }
+    const chapter: Chapter = {
+      id: uuidv4(),
+      title: heading.title,
+      level: heading.level,
+      parentId: open[open.length - 1]?.id,
+      startTokenIndex: heading.index,
+      endTokenIndex: totalTokens,
+    };
+    chapters.push(chapter);
+    open.push(chapter);
+  }
+
+  return chapters;
+}
+
+/**
+ * Chapters starting at each heading; text before the first heading (if
+ * any) is its own untitled chapter. One "Full Text" chapter without headings.
+ */
+export function chaptersFromHeadings(headings: TextHeading[], tokens: Token[]): Chapter[] {
+  const starts = headings
+    .map((heading) => ({ ...heading, index: tokenIndexAtOffset(tokens, heading.offset) }))
+    // Headings with no text after them, or sharing a start, collapse into the first
+    .filter((start, i, all) => start.index < tokens.length && (i === 0 || start.index > all[i - 1].index));
+
+  if (starts.length === 0) {
+    return [{ id: uuidv4(), title: 'Full Text', level: 1, startTokenIndex: 0, endTokenIndex: tokens.length }];
+  }
+  if (starts[0].index > 0) {
+    starts.unshift({ offset: 0, title: 'Start', level: Math.min(...starts.map((s) => s.level)), index: 0 });
+  }
+
+  return buildChapterTree(starts, tokens.length);
+}
+
+/**
+ * Chapters with bounds counted in words rather than token indices
+ * Stored documents keep chapters this way, like their positions, since
+ * table/figure/equation marker frames hold no words.
+ */
+export function chaptersInWords(chapters: Chapter[], tokens: Array<Pick<Token, 'wordCount'>>): Chapter[] {
+  const wordOffsets = buildWordOffsets(tokens);
+  const wordAt = (index: number) => wordOffsets[Math.min(index, tokens.length)];
+  return chapters.map((ch) => ({ ...ch, startTokenIndex: wordAt(ch.startTokenIndex), endTokenIndex: wordAt(ch.endTokenIndex) }));
+}
+
+/**
+ * Chapters for a document
+ * Sources with structure use their own headings (HTML h1-h3, a PDF outline,
+ * an EPUB TOC); plain text is scanned for heading lines. Without headings
+ * the text is split into ~1000-word sections at paragraph boundaries.
+ * Boundaries are exact indices into `tokens`, which may be single words or
+ * chunked frames.
+ * @param sourceHeadings Headings found during extraction, if any
+ */
+export function detectChapters(text: string, tokens: Token[], sourceHeadings?: TextHeading[]): Chapter[] {
+  const headings = sourceHeadings && sourceHeadings.length > 0 ? sourceHeadings : detectTextHeadings(text);
+  return headings.length > 0 ? chaptersFromHeadings(headings, tokens) : sectionsByParagraph(tokens);
+}
+
+/**
+ * Heading lines in plain text
+ * Recognises Markdown `#`-`###`, "Part II"/"Book One", "Chapter 12",
+ * numbered headings (1, 1.2, 1.2.3) and, when set apart by blank lines,
+ * lone Roman numerals and short all-caps lines.
+ */
+export function detectTextHeadings(text: string): TextHeading[] {
+  const headings: TextHeading[] = [];
+  const lines = text.split('\n');
+  const isBlank = (i: number) => i < 0 || i >= lines.length || lines[i].trim() === '';
+  let offset = 0;
+
+  lines.forEach((raw, i) => {
+    const lineStart = offset;
+    offset += raw.length + 1;
+
+    const line = raw.trim();
+    if (line === '' || line.length > MAX_HEADING_CHARS) return;
+    const heading = (title: string, level: number) =>
+      headings.push({ offset: lineStart + raw.indexOf(line), title, level });
+
+    const markdown = MARKDOWN_HEADING.exec(line);
+    if (markdown) {
+      heading(markdown[2], markdown[1].length);
+      return;
+    }
+
+    // Headings are short and don't read like a sentence ("Chapter 3." is fine)
+    const words = line.split(/\s+/).length;
+    if (words > MAX_HEADING_WORDS || /[,;:]$/.test(line) || (words > 2 && /[.!?]$/.test(line))) return;
+    const setApart = isBlank(i - 1) && isBlank(i + 1);
+
+    if (PART_HEADING.test(line)) {
+      heading(line, PART_LEVEL);
+    } else if (CHAPTER_HEADING.test(line)) {
+      heading(line, CHAPTER_LEVEL);
+    } else if (setApart && ROMAN_HEADING.test(line)) {
+      heading(line, CHAPTER_LEVEL);
+    } else {
+      const numbered = NUMBERED_HEADING.exec(line);
+      const depth = numbered ? numbered[1].split('.').length : 0;
+      // A lone number ("3 Methods") needs blank lines so list items don't count
+      if (numbered && (depth > 1 || setApart)) {
+        heading(line, CHAPTER_LEVEL + depth - 1);
+      } else if (
+        setApart &&
+        words <= MAX_CAPS_HEADING_WORDS &&
+        /\p{Lu}.*\p{Lu}/u.test(line) &&
+        line === line.toUpperCase()
+      ) {
+        heading(line, CHAPTER_LEVEL);
+      }
+    }
+  });
+
+  return headings;
+}
+
+/**
+ * ~1000-word "Section N" chapters cut where a paragraph starts; a very long
+ * paragraph may be cut between sentences. One "Full Text" chapter if short.
+ */
+function sectionsByParagraph(tokens: Token[]): Chapter[] {
+  const starts = [0];
+  let words = 0;
+  let remaining = tokens.reduce((sum, token) => sum + token.wordCount, 0);
+
+  tokens.forEach((token, i) => {
+    if (i > 0 && words >= SECTION_WORDS && remaining >= SECTION_WORDS / 4) {
+      const previous = tokens[i - 1];
+      const isParagraphStart = token.paragraphIndex !== previous.paragraphIndex;
+      const isSentenceStart = token.sentenceIndex !== previous.sentenceIndex;
+      if (isParagraphStart || (words >= LONG_PARAGRAPH_WORDS && isSentenceStart)) {
+        starts.push(i);
+        words = 0;
+      }
+    }
+    words += token.wordCount;
+    remaining -= token.wordCount;
+  });
+
+  if (starts.length === 1) {
+    return [{ id: uuidv4(), title: 'Full Text', level: 1, startTokenIndex: 0, endTokenIndex: tokens.length }];
+  }
+  return starts.map((start, i) => ({
+    id: uuidv4(),
+    title: `Section ${i + 1}`,
+    level: 1,
+    startTokenIndex: start,
+    endTokenIndex: i < starts.length - 1 ? starts[i + 1] : tokens.length,
+  }));
+}
+
+/**
+ * Chapters containing a token, outermost first (e.g. Part, Chapter, Section)
+ */
+export function chapterPath(chapters: Chapter[], index: number): Chapter[] {
+  return chapters.filter((ch) => index >= ch.startTokenIndex && index < ch.endTokenIndex);
+}
+
+/**
+ * Progress, time left and done state of every chapter
+ * @param timeline simulatePlayback(tokens, wpm) for the same tokens
+ */
+export function chapterStatuses(
+  chapters: Chapter[],
+  tokens: Token[],
+  currentIndex: number,
+  timeline: PlaybackTimeline,
+  isComplete = false
+): ChapterStatus[] {
+  const wordOffsets = buildWordOffsets(tokens);
+  const wordAt = (index: number) => wordOffsets[Math.max(0, Math.min(tokens.length, index))] ?? 0;
+  const msAt = (index: number) => timeline.offsets[Math.max(0, Math.min(tokens.length, index))] ?? 0;
+  const depths = new Map<string, number>();
+
+  return chapters.map((chapter) => {
+    const { startTokenIndex: start, endTokenIndex: end } = chapter;
+    const isDone = isComplete || currentIndex >= end;
+    const position = Math.max(start, Math.min(end, isDone ? end : currentIndex));
+    const words = wordAt(end) - wordAt(start);
+    // Parents come before their children, so their depth is already known
+    const depth = chapter.parentId !== undefined ? (depths.get(chapter.parentId) ?? -1) + 1 : 0;
+    depths.set(chapter.id, depth);
+
+    return {
+      chapter,
+      depth,
+      progress: words > 0 ? (wordAt(position) - wordAt(start)) / words : isDone ? 1 : 0,
+      msLeft: msAt(end) - msAt(position),
+      isDone,
+      isCurrent: !isComplete && currentIndex >= start && currentIndex < end,
+    };
+  });
+}
+
+/**
+ * Short time-left label: "<1 min", "12 min", "1 h 5 min"
+ */
+export function formatTimeLeft(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return '<1 min';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return mins > 0 ? `${hours} h ${mins} min` : `${hours} h`;
+}
@@ -0,0 +1,118 @@
+/**
+ * Clocks for the timing engine
+ *
+ * The scheduler and playback read time and set timers only through a Clock.
+ * The real clock wraps performance.now() and the window timers; the virtual
+ * clock keeps its own time and only moves when stepped, so playback can be
+ * simulated far faster than real time and gives the same result every run.
+ */
+
+export interface Clock {
+  /** Current time in milliseconds */
+  now(): number;
+  setTimeout(callback: () => void, ms: number): number;
+  clearTimeout(id: number): void;
+  /** Run on the next animation frame */
+  requestFrame(callback: () => void): number;
+  cancelFrame(id: number): void;
+}
+
+/**
+ * Wall-clock time and browser timers
+ */
+export const realClock: Clock = {
+  now: () => performance.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (id) => window.clearTimeout(id),
+  requestFrame: (callback) => window.requestAnimationFrame(() => callback()),
+  cancelFrame: (id) => window.cancelAnimationFrame(id),
+};
+
+interface VirtualTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+// Animation frames on the virtual clock are assumed to be 60 Hz
+const VIRTUAL_FRAME_MS = 1000 / 60;
+
+/**
+ * Steppable clock: time stands still until advance() or runAll() is called
+ *
+ * Timers fire in due-time order (ties in the order they were set), and
+ * time jumps straight to each one.
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private nextId = 1;
+  private timers: VirtualTimer[] = [];
+
+  constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    const timer = { id: this.nextId++, at: this.time + Math.max(0, ms || 0), callback };
+    // Keep sorted by due time; equal times stay in insertion order
+    let i = this.timers.length;
+    while (i > 0 && this.timers[i - 1].at > timer.at) i--;
+    this.timers.splice(i, 0, timer);
+    return timer.id;
+  }
+
+  clearTimeout(id: number): void {
+    this.timers = this.timers.filter((timer) => timer.id !== id);
+  }
+
+  requestFrame(callback: () => void): number {
+    return this.setTimeout(callback, VIRTUAL_FRAME_MS);
+  }
+
+  cancelFrame(id: number): void {
+    this.clearTimeout(id);
+  }
+
+  /**
+   * Move time forward by `ms`, firing every timer that falls due on the way
+   */
+  advance(ms: number): void {
+    const end = this.time + Math.max(0, ms);
+    while (this.timers.length > 0 && this.timers[0].at <= end) {
+      this.fireNext();
+    }
+    this.time = end;
+  }
+
+  /**
+   * Fire timers until none are left
+   * @param maxTimers Safety limit against callbacks that reschedule forever
+   * @returns Time elapsed in milliseconds
+   */
+  runAll(maxTimers = Infinity): number {
+    const start = this.time;
+    let fired = 0;
+    while (this.timers.length > 0 && fired < maxTimers) {
+      this.fireNext();
+      fired++;
+    }
+    return this.time - start;
+  }
+
+  /**
+   * Number of timers waiting to fire
+   */
+  pending(): number {
+    return this.timers.length;
+  }
+
+  private fireNext(): void {
+    const timer = this.timers.shift()!;
+    this.time = Math.max(this.time, timer.at);
+    timer.callback();
+  }
+}
@@ -1,4 +1,11 @@
 // RSVP Engine - Main exports
 
 export * from './tokenizer';
+export * from './pause-profiles';
+export * from './clock';
 export * from './timing';
+export * from './navigation';
+export * from './playback';
+export * from './adaptive';
+export * from './chapters';
+export * from './resume';
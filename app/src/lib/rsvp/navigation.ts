@@ -0,0 +1,100 @@
+/**
+ * Semantic navigation for RSVP playback
+ *
+ * Resolves "previous sentence", "next paragraph", etc. to a token index
+ * using the sentence/paragraph indices emitted by tokenize and the
+ * document's chapter boundaries.
+ */
+
+import type { Token, Chapter } from '../../types';
+
+export type NavigationTarget =
+  | 'sentence-prev'
+  | 'sentence-start'
+  | 'sentence-next'
+  | 'paragraph-prev'
+  | 'paragraph-next'
+  | 'chapter-prev'
+  | 'chapter-next';
+
+type NavToken = Pick<Token, 'sentenceIndex' | 'paragraphIndex'>;
+type Unit = 'sentenceIndex' | 'paragraphIndex';
+
+/**
+ * First token of the unit (sentence or paragraph) containing `index`
+ */
+function unitStart(tokens: NavToken[], index: number, unit: Unit): number {
+  const value = tokens[index][unit];
+  let i = index;
+  while (i > 0 && tokens[i - 1][unit] === value) i--;
+  return i;
+}
+
+/**
+ * First token of the unit after the one containing `index`
+ * Returns tokens.length when `index` is in the last unit.
+ */
+function nextUnitStart(tokens: NavToken[], index: number, unit: Unit): number {
+  const value = tokens[index][unit];
+  let i = index;
+  while (i < tokens.length && tokens[i][unit] === value) i++;
+  return i;
+}
+
+/**
+ * Start of the unit before the one containing `index` (0 if there is none)
+ */
+function previousUnitStart(tokens: NavToken[], index: number, unit: Unit): number {
+  const start = unitStart(tokens, index, unit);
+  return start > 0 ? unitStart(tokens, start - 1, unit) : 0;
+}
+
+/**
+ * Resolve a navigation target to a token index
+ *
+ * @param tokens Document tokens (words or chunks)
+ * @param chapters Chapter boundaries in token indices; may be empty
+ * @param currentIndex Current token index
+ * @param target Where to go
+ * @returns Token index clamped to [0, tokens.length - 1]
+ */
+export function resolveNavigationTarget(
+  tokens: NavToken[],
+  chapters: Array<Pick<Chapter, 'startTokenIndex' | 'endTokenIndex'>>,
+  currentIndex: number,
+  target: NavigationTarget
+): number {
+  if (tokens.length === 0) return 0;
+
+  const last = tokens.length - 1;
+  const index = Math.max(0, Math.min(last, currentIndex));
+
+  switch (target) {
+    case 'sentence-start':
+      return unitStart(tokens, index, 'sentenceIndex');
+    case 'sentence-prev':
+      return previousUnitStart(tokens, index, 'sentenceIndex');
+    case 'sentence-next':
+      return Math.min(last, nextUnitStart(tokens, index, 'sentenceIndex'));
+    case 'paragraph-prev':
+      return previousUnitStart(tokens, index, 'paragraphIndex');
+    case 'paragraph-next':
+      return Math.min(last, nextUnitStart(tokens, index, 'paragraphIndex'));
+    case 'chapter-prev': {
+      const starts = chapters.map((ch) => ch.startTokenIndex).filter((start) => start < index);
+      // Mid-chapter goes back to the chapter's own start, like a music player
+      return starts.length > 0 ? Math.max(...starts) : 0;
+    }
+    case 'chapter-next': {
+      const starts = chapters.map((ch) => ch.startTokenIndex).filter((start) => start > index);
+      return starts.length > 0 ? Math.min(last, Math.min(...starts)) : last;
+    }
+  }
+}
+
+/**
+ * Whether a target moves backwards (used to clear the complete state)
+ */
+export function isBackwardTarget(target: NavigationTarget): boolean {
+  return target.endsWith('-prev') || target === 'sentence-start';
+}
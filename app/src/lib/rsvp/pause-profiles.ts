@@ -1,11 +1,13 @@
-import type { PauseProfile } from '../../types';
+import type { PauseProfile, CustomPauseProfile } from '../../types';
 
 /**
  * Pause profiles for RSVP reading
  * Multipliers for base word duration (60000 / WPM ms)
  */
 
-export const PAUSE_PROFILES: Record<string, PauseProfile> = {
+export type BuiltInPauseProfile = 'fast' | 'normal' | 'slow';
+
+export const PAUSE_PROFILES: Record<BuiltInPauseProfile, PauseProfile> = {
   fast: {
     comma: 0.3,
     semicolon: 0.3,
@@ -14,6 +16,10 @@ export const PAUSE_PROFILES: Record<string, PauseProfile> = {
     exclamation: 0.8,
     question: 0.8,
     paragraph: 1.5,
+    longWord: 0.03,
+    numeric: 0.3,
+    mixedCase: 0.2,
+    rareWord: 0.2,
   },
   normal: {
     comma: 0.4,
@@ -23,6 +29,10 @@ export const PAUSE_PROFILES: Record<string, PauseProfile> = {
     exclamation: 1.2,
     question: 1.2,
     paragraph: 2.0,
+    longWord: 0.05,
+    numeric: 0.5,
+    mixedCase: 0.3,
+    rareWord: 0.3,
   },
   slow: {
     comma: 0.6,
@@ -32,7 +42,31 @@ export const PAUSE_PROFILES: Record<string, PauseProfile> = {
     exclamation: 1.8,
     question: 1.8,
     paragraph: 3.0,
+    longWord: 0.08,
+    numeric: 0.8,
+    mixedCase: 0.5,
+    rareWord: 0.5,
   },
 };
 
+/**
+ * Check whether a profile key names a built-in profile
+ */
+export function isBuiltInPauseProfile(key: string): key is BuiltInPauseProfile {
+  return Object.prototype.hasOwnProperty.call(PAUSE_PROFILES, key);
+}
+
+/**
+ * Resolve a settings key (built-in name or custom profile id) to its values
+ * Unknown keys, e.g. a deleted custom profile, fall back to "normal".
+ */
+export function resolvePauseProfile(
+  key: string | undefined,
+  customProfiles: CustomPauseProfile[] = []
+): PauseProfile {
+  if (!key) return PAUSE_PROFILES.normal;
+  if (isBuiltInPauseProfile(key)) return PAUSE_PROFILES[key];
+  return customProfiles.find((p) => p.id === key)?.values ?? PAUSE_PROFILES.normal;
+}
+
 export default PAUSE_PROFILES;
@@ -0,0 +1,371 @@
+/**
+ * Headless RSVP playback
+ *
+ * Owns the tokens, current index, WPM and the play/pause/end state, and
+ * schedules every frame for its own duration through a
+ * DriftCompensatedScheduler.
+ * Framework-free: the web app and the extension overlay are thin views
+ * that subscribe to its events and call its methods. On a VirtualClock
+ * a whole document plays in milliseconds (see simulatePlayback).
+ */
+
+import type { SpeedRamp, Token } from '../../types';
+import { getFrameDuration } from './tokenizer';
+import { realClock, VirtualClock, type Clock } from './clock';
+import {
+  DriftCompensatedScheduler,
+  calculateWPMCorrection,
+  createTimingMeasureCallback,
+  type DriftSample,
+} from './timing';
+
+export interface PlaybackState {
+  tokens: Token[];
+  index: number;
+  wpm: number;
+  effectiveWpm: number; // WPM as delivered (warm-up ramp and timer lag included); equals wpm when idle
+  isPlaying: boolean;
+  isComplete: boolean;
+}
+
+/**
+ * Live timing telemetry for the current run
+ */
+export interface PlaybackTimingStats {
+  targetWpm: number;
+  effectiveWpm: number;
+  correctedWpm: number; // Setting that would deliver targetWpm given the measured lag
+  wordsPerMinute: number; // Words shown per minute since play, pauses included
+  driftMs: number; // Lateness of the last tick
+  averageDriftMs: number; // Mean lateness over the recent samples
+  samples: DriftSample[];
+}
+
+/**
+ * Events and their payloads
+ * - change: any state change (new state object)
+ * - token: a frame started showing during playback
+ */
+export interface PlaybackEventMap {
+  change: PlaybackState;
+  token: { index: number; token: Token };
+  play: { index: number };
+  pause: { index: number };
+  seek: { from: number; to: number };
+  wpm: { from: number; to: number };
+  end: { index: number };
+}
+
+export type PlaybackEvent = keyof PlaybackEventMap;
+
+type Listener<E extends PlaybackEvent> = (payload: PlaybackEventMap[E]) => void;
+
+export interface PlaybackOptions {
+  tokens?: Token[];
+  index?: number;
+  wpm?: number;
+  ramp?: SpeedRamp | null;
+  clock?: Clock;
+}
+
+/**
+ * When each frame shows during uninterrupted playback from the start
+ */
+export interface PlaybackTimeline {
+  durationMs: number;
+  // offsets[i] = ms from the start until frame i shows; offsets[tokens.length] = durationMs
+  offsets: number[];
+}
+
+// A late frame is shortened to catch up, but never below this share of its duration
+const MIN_FRAME_FRACTION = 0.5;
+
+export class PlaybackController {
+  private state: PlaybackState;
+  private listeners = new Map<PlaybackEvent, Set<(payload: unknown) => void>>();
+  private scheduler: DriftCompensatedScheduler;
+  private measure: ReturnType<typeof createTimingMeasureCallback>;
+  private ramp: SpeedRamp | null;
+  // Running warm-up: its length and progress in ramp.unit (0 length = none)
+  private rampLength = 0;
+  private rampProgress = 0;
+  // Speed the latest frame was scheduled at
+  private frameWpm: number;
+
+  constructor(options: PlaybackOptions = {}) {
+    const clock = options.clock ?? realClock;
+    this.scheduler = new DriftCompensatedScheduler({ minIntervalFraction: MIN_FRAME_FRACTION, clock });
+    this.measure = createTimingMeasureCallback(clock);
+    this.ramp = options.ramp ?? null;
+    this.frameWpm = options.wpm ?? 300;
+    const tokens = options.tokens ?? [];
+    this.state = {
+      tokens,
+      index: clampIndex(options.index ?? 0, tokens.length),
+      wpm: options.wpm ?? 300,
+      effectiveWpm: options.wpm ?? 300,
+      isPlaying: false,
+      isComplete: false,
+    };
+  }
+
+  /**
+   * Current state; a new object after every change (safe for useSyncExternalStore)
+   */
+  getState = (): PlaybackState => this.state;
+
+  /**
+   * Listen for any state change
+   * @returns Unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => this.on('change', listener);
+
+  /**
+   * Listen for one event type
+   * @returns Unsubscribe function
+   */
+  on<E extends PlaybackEvent>(event: E, listener: Listener<E>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    const entry = listener as (payload: unknown) => void;
+    set.add(entry);
+    return () => {
+      set.delete(entry);
+    };
+  }
+
+  play(): void {
+    const { isPlaying, isComplete, tokens, index } = this.state;
+    if (isPlaying || isComplete || tokens.length === 0) return;
+
+    this.update({ isPlaying: true });
+    this.emit('play', { index });
+    this.measure.reset();
+    this.startRamp(this.ramp?.length ?? 0);
+    this.startFrame();
+  }
+
+  pause(): void {
+    if (!this.state.isPlaying) return;
+
+    this.scheduler.stop();
+    this.update({ isPlaying: false, effectiveWpm: this.state.wpm });
+    this.emit('pause', { index: this.state.index });
+  }
+
+  toggle(): void {
+    if (this.state.isPlaying) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Move to a token; clears the end-of-document state
+   * While playing, the new frame gets its full duration.
+   */
+  seek(index: number): void {
+    const from = this.state.index;
+    const to = clampIndex(index, this.state.tokens.length);
+
+    this.scheduler.stop();
+    this.update({ index: to, isComplete: false });
+    this.emit('seek', { from, to });
+    if (this.state.isPlaying) {
+      this.startRamp(this.ramp?.seekLength ?? 0);
+      this.startFrame();
+    }
+  }
+
+  /**
+   * Back to the first token, paused
+   */
+  restart(): void {
+    this.pause();
+    this.seek(0);
+  }
+
+  /**
+   * Change speed without restarting; the rest of the running frame is rescaled
+   */
+  setWpm(wpm: number): void {
+    const from = this.state.wpm;
+    if (wpm === from || !(wpm > 0)) return;
+
+    this.update({ wpm, effectiveWpm: this.state.isPlaying ? this.state.effectiveWpm : wpm });
+    this.scheduler.rescale(from / wpm);
+    this.emit('wpm', { from, to: wpm });
+  }
+
+  /**
+   * Set the warm-up ramp used from the next play or seek (null = none)
+   */
+  setRamp(ramp: SpeedRamp | null): void {
+    this.ramp = ramp;
+  }
+
+  /**
+   * Replace the tokens (e.g. after retokenizing), keeping play state
+   */
+  setTokens(tokens: Token[], index = 0): void {
+    this.scheduler.stop();
+    this.update({
+      tokens,
+      index: clampIndex(index, tokens.length),
+      isComplete: false,
+      isPlaying: this.state.isPlaying && tokens.length > 0,
+    });
+    if (this.state.isPlaying) this.startFrame();
+  }
+
+  /**
+   * Timing telemetry: target vs effective WPM and recent drift samples
+   */
+  getTimingStats(): PlaybackTimingStats {
+    const { wpm, effectiveWpm } = this.state;
+    const samples = this.scheduler.getDriftSamples();
+    return {
+      targetWpm: wpm,
+      effectiveWpm,
+      correctedWpm: calculateWPMCorrection(wpm, effectiveWpm),
+      wordsPerMinute: this.measure.getWPM(),
+      driftMs: this.scheduler.getDrift(),
+      averageDriftMs: samples.length > 0 ? samples.reduce((sum, s) => sum + s.driftMs, 0) / samples.length : 0,
+      samples,
+    };
+  }
+
+  /**
+   * Stop timers and drop all listeners
+   */
+  dispose(): void {
+    this.scheduler.stop();
+    this.listeners.clear();
+  }
+
+  // Show the current frame from now; each tick after that advances one frame
+  private startFrame(): void {
+    let isFirstTick = true;
+    this.scheduler.stop();
+    this.scheduler.start(
+      () => {
+        if (isFirstTick) {
+          isFirstTick = false;
+          this.showFrame();
+        } else {
+          this.advance();
+        }
+      },
+      () => this.nextFrameDuration()
+    );
+  }
+
+  // Duration of the frame just shown, at the ramped speed; advances the ramp
+  private nextFrameDuration(): number {
+    const token = this.state.tokens[this.state.index];
+    this.frameWpm = this.rampedWpm();
+    const duration = getFrameDuration(token, this.frameWpm);
+
+    if (this.rampProgress < this.rampLength) {
+      this.rampProgress += this.ramp?.unit === 'words' ? token.wordCount : duration / 1000;
+    }
+    return duration;
+  }
+
+  private startRamp(length: number): void {
+    this.rampLength = this.ramp?.enabled ? Math.max(0, length) : 0;
+    this.rampProgress = 0;
+  }
+
+  private rampedWpm(): number {
+    const { wpm } = this.state;
+    if (!this.ramp || this.rampProgress >= this.rampLength) return wpm;
+
+    const from = Math.min(1, Math.max(0.1, this.ramp.startFraction));
+    return wpm * (from + (1 - from) * (this.rampProgress / this.rampLength));
+  }
+
+  private showFrame(): void {
+    const { tokens, index } = this.state;
+    const token = tokens[index];
+    this.measure.recordToken(token.wordCount);
+    this.emit('token', { index, token });
+  }
+
+  private advance(): void {
+    const { tokens, index, wpm } = this.state;
+
+    if (index >= tokens.length - 1) {
+      this.scheduler.stop();
+      this.update({ isPlaying: false, isComplete: true, effectiveWpm: wpm });
+      this.emit('end', { index });
+      return;
+    }
+
+    this.update({
+      index: index + 1,
+      effectiveWpm: Math.round(this.frameWpm / this.scheduler.getTimingRatio()),
+    });
+    this.showFrame();
+  }
+
+  private update(changes: Partial<PlaybackState>): void {
+    this.state = { ...this.state, ...changes };
+    this.emit('change', this.state);
+  }
+
+  private emit<E extends PlaybackEvent>(event: E, payload: PlaybackEventMap[E]): void {
+    this.listeners.get(event)?.forEach((listener) => listener(payload));
+  }
+}
+
+/**
+ * Play the tokens start to end on a virtual clock
+ * Runs the real playback loop, so pauses, chunks and snapshot frames are
+ * timed exactly as a reader sees them; takes milliseconds, not minutes.
+ */
+export function simulatePlayback(tokens: Token[], wpm: number): PlaybackTimeline {
+  const clock = new VirtualClock();
+  const controller = new PlaybackController({ tokens, wpm, clock });
+  const offsets: number[] = new Array(tokens.length + 1).fill(0);
+
+  controller.on('token', ({ index }) => {
+    offsets[index] = clock.now();
+  });
+  controller.play();
+  clock.runAll();
+  controller.dispose();
+
+  offsets[tokens.length] = clock.now();
+  return { durationMs: clock.now(), offsets };
+}
+
+/**
+ * Re-time a simulated playback for another WPM
+ * Frame durations scale with 1 / WPM except snapshot frames, whose time is
+ * fixed; this is far cheaper than simulating again on every WPM step.
+ */
+export function scaleTimeline(
+  timeline: PlaybackTimeline,
+  tokens: Token[],
+  fromWpm: number,
+  toWpm: number
+): PlaybackTimeline {
+  if (fromWpm === toWpm) return timeline;
+  const ratio = fromWpm / toWpm;
+  const offsets: number[] = new Array(tokens.length + 1);
+  let fixedMs = 0;
+  for (let i = 0; i <= tokens.length; i++) {
+    offsets[i] = fixedMs + (timeline.offsets[i] - fixedMs) * ratio;
+    fixedMs += tokens[i]?.fixedDurationMs ?? 0;
+  }
+  return { durationMs: offsets[tokens.length], offsets };
+}
+
+function clampIndex(index: number, length: number): number {
+  return Math.max(0, Math.min(index, length - 1));
+}
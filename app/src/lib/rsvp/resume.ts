@@ -0,0 +1,62 @@
+/**
+ * Resume point
+ *
+ * Describes a saved reading position for the "Resume at 43% — Chapter 3
+ * (~12 min left)" prompt shown when a document is reopened, in the app
+ * and the extension overlay.
+ */
+
+import type { Chapter, Token } from '../../types';
+import { buildWordOffsets } from './tokenizer';
+import { chapterPath, formatTimeLeft } from './chapters';
+import type { PlaybackTimeline } from './playback';
+
+// Share of a document that counts as finished
+export const COMPLETION_RATIO = 0.95;
+
+export interface ResumePoint {
+  index: number; // Token index of the saved position
+  percent: number; // 0-100, by words
+  chapter?: Chapter; // Innermost chapter at the position
+  msLeft: number; // Playback time left in the document
+}
+
+/**
+ * Whether a saved word position is worth offering to resume from
+ * Positions at the very start, or past the completion point, aren't.
+ */
+export function isResumablePosition(wordIndex: number, totalWords: number): boolean {
+  return wordIndex > 0 && wordIndex / totalWords < COMPLETION_RATIO;
+}
+
+/**
+ * Describe a saved position
+ * @param timeline simulatePlayback(tokens, wpm) for the same tokens
+ */
+export function resumePoint(
+  tokens: Token[],
+  chapters: Chapter[],
+  index: number,
+  timeline: PlaybackTimeline
+): ResumePoint {
+  const position = Math.max(0, Math.min(tokens.length, index));
+  const wordOffsets = buildWordOffsets(tokens);
+  const totalWords = wordOffsets[tokens.length];
+  const path = chapterPath(chapters, position);
+
+  return {
+    index: position,
+    percent: totalWords > 0 ? Math.round((wordOffsets[position] / totalWords) * 100) : 0,
+    // A single chapter covering everything says nothing about the position
+    chapter: chapters.length > 1 ? path[path.length - 1] : undefined,
+    msLeft: timeline.durationMs - (timeline.offsets[position] ?? timeline.durationMs),
+  };
+}
+
+/**
+ * "Resume at 43% — Chapter 3 (~12 min left)"
+ */
+export function formatResumeLabel(point: ResumePoint): string {
+  const chapter = point.chapter ? ` — ${point.chapter.title}` : '';
+  return `Resume at ${point.percent}%${chapter} (~${formatTimeLeft(point.msLeft)} left)`;
+}
@@ -0,0 +1,154 @@
+/**
+ * Language-aware word segmentation
+ *
+ * Scripts that don't separate words with spaces (Chinese, Japanese, Thai,
+ * Lao, Khmer, Myanmar) are split with Intl.Segmenter instead of \s+.
+ */
+
+import type { TextDirection } from '../../types';
+
+// Primary language subtags whose text needs dictionary-based segmentation
+const SEGMENTED_LANGUAGES = new Set(['zh', 'ja', 'th', 'lo', 'km', 'my']);
+
+// Script detectors, checked in order; Japanese before Chinese since kana implies ja
+const SCRIPT_LANGUAGES: Array<{ pattern: RegExp; language: string }> = [
+  { pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu, language: 'ja' },
+  { pattern: /\p{Script=Han}/gu, language: 'zh' },
+  { pattern: /\p{Script=Hangul}/gu, language: 'ko' },
+  { pattern: /\p{Script=Thai}/gu, language: 'th' },
+  { pattern: /\p{Script=Lao}/gu, language: 'lo' },
+  { pattern: /\p{Script=Khmer}/gu, language: 'km' },
+  { pattern: /\p{Script=Myanmar}/gu, language: 'my' },
+  { pattern: /\p{Script=Hebrew}/gu, language: 'he' },
+  { pattern: /\p{Script=Arabic}/gu, language: 'ar' },
+];
+
+// Right-to-left languages (primary subtags)
+const RTL_LANGUAGES = new Set(['ar', 'he', 'fa', 'ur', 'yi', 'ps', 'sd', 'ug', 'dv', 'ckb']);
+
+// Letters from right-to-left scripts
+const RTL_CHAR = /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+
+// Languages written mostly in ideographs, where each glyph carries more
+const IDEOGRAPHIC_LANGUAGES = new Set(['zh', 'ja']);
+
+/**
+ * Primary subtag of a BCP 47 tag ("zh-Hant-TW" -> "zh")
+ */
+export function primaryLanguage(language: string): string {
+  return language.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Detect the language of a text
+ *
+ * @param text Text to inspect
+ * @param langHint A `lang` attribute or user override; wins when present
+ * @returns BCP 47 language tag (defaults to "en")
+ */
+export function detectLanguage(text: string, langHint?: string | null): string {
+  const hint = langHint?.trim();
+  if (hint) return hint;
+
+  // Sample the start of the text; enough to tell scripts apart
+  const sample = text.slice(0, 2000);
+  const letterCount = (sample.match(/\p{L}/gu) || []).length;
+  if (letterCount === 0) return 'en';
+
+  // Kana is a strong signal even in kanji-heavy Japanese
+  const kanaCount = (sample.match(SCRIPT_LANGUAGES[0].pattern) || []).length;
+  if (kanaCount / letterCount > 0.05) return 'ja';
+
+  for (const { pattern, language } of SCRIPT_LANGUAGES.slice(1)) {
+    const count = (sample.match(pattern) || []).length;
+    if (count / letterCount > 0.3) return language;
+  }
+
+  return 'en';
+}
+
+/**
+ * Check whether a language needs Intl.Segmenter rather than whitespace splitting
+ */
+export function needsSegmenter(language: string): boolean {
+  return SEGMENTED_LANGUAGES.has(primaryLanguage(language));
+}
+
+/**
+ * Check whether a language is written right-to-left
+ */
+export function isRTLLanguage(language: string): boolean {
+  return RTL_LANGUAGES.has(primaryLanguage(language));
+}
+
+/**
+ * Direction of a piece of text from its first strong (letter) character
+ * Text with no letters (numbers, symbols) falls back to `fallback`.
+ */
+export function getTextDirection(text: string, fallback: TextDirection = 'ltr'): TextDirection {
+  const firstLetter = text.match(/\p{L}/u);
+  if (!firstLetter) return fallback;
+  return RTL_CHAR.test(firstLetter[0]) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Check whether a language is written mainly in ideographs (CJK ORP rule)
+ */
+export function isIdeographicLanguage(language: string): boolean {
+  return IDEOGRAPHIC_LANGUAGES.has(primaryLanguage(language));
+}
+
+/**
+ * A word and its character offset within the string it was split from
+ */
+export interface WordSpan {
+  text: string;
+  start: number;
+}
+
+/**
+ * Split on whitespace, keeping offsets
+ */
+export function splitWhitespace(line: string): WordSpan[] {
+  return Array.from(line.matchAll(/\S+/g), (m) => ({ text: m[0], start: m.index ?? 0 }));
+}
+
+/**
+ * Split a line into words with Intl.Segmenter
+ * Punctuation segments are attached to the preceding word so pause
+ * detection still sees "。" or "、" at the end of a token.
+ * Falls back to whitespace splitting when Intl.Segmenter is unavailable.
+ */
+export function segmentWords(line: string, language: string): WordSpan[] {
+  if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) {
+    return splitWhitespace(line);
+  }
+
+  const segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+  const words: WordSpan[] = [];
+
+  for (const { segment, index, isWordLike } of segmenter.segment(line)) {
+    if (!segment.trim()) continue;
+
+    const previous = words[words.length - 1];
+    const isAdjacent = previous && previous.start + previous.text.length === index;
+    if (isWordLike || !isAdjacent) {
+      words.push({ text: segment, start: index });
+    } else {
+      previous.text += segment;
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Split text into grapheme clusters (user-perceived characters)
+ */
+export function splitGraphemes(text: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+    return Array.from(segmenter.segment(text), (s) => s.segment);
+  }
+  return Array.from(text);
+}
@@ -3,8 +3,12 @@
  *
  * Uses performance.now() for precise timing and compensates for drift
  * caused by setInterval inaccuracy and main thread blocking.
+ * Time and timers come from a Clock (real by default), so the same code
+ * runs on a virtual clock for simulations.
  */
 
+import { realClock, type Clock } from './clock';
+
 export interface TimingState {
   expectedTime: number;
   lastTickTime: number;
@@ -14,10 +18,10 @@ export interface TimingState {
 /**
  * Create a new timing state
  */
-export function createTimingState(): TimingState {
+export function createTimingState(clock: Clock = realClock): TimingState {
   return {
-    expectedTime: performance.now(),
-    lastTickTime: performance.now(),
+    expectedTime: clock.now(),
+    lastTickTime: clock.now(),
     totalDrift: 0,
   };
 }
@@ -27,10 +31,11 @@ export function createTimingState(): TimingState {
  *
  * @param state Current timing state
  * @param intervalMs Target interval in milliseconds
+ * @param clock Time source
  * @returns The delay to use for setTimeout, or -1 if should run immediately
  */
-export function calculateNextTick(state: TimingState, intervalMs: number): number {
-  const now = performance.now();
+export function calculateNextTick(state: TimingState, intervalMs: number, clock: Clock = realClock): number {
+  const now = clock.now();
   const expectedNextTime = state.expectedTime + intervalMs;
   const drift = now - expectedNextTime;
 
@@ -79,65 +84,140 @@ export function measureActualWPM(tokenCount: number, startTime: number, endTime:
 
 /**
  * Create a timing callback wrapper that measures actual performance
+ * recordToken takes the words a frame held (chunks count every word).
  */
-export function createTimingMeasureCallback() {
+export function createTimingMeasureCallback(clock: Clock = realClock) {
   let tokenCount = 0;
-  let startTime = performance.now();
+  let startTime = clock.now();
 
   return {
-    recordToken: () => {
-      tokenCount++;
+    recordToken: (words: number = 1) => {
+      tokenCount += words;
     },
-    getWPM: () => measureActualWPM(tokenCount, startTime, performance.now()),
+    getWPM: () => measureActualWPM(tokenCount, startTime, clock.now()),
     reset: () => {
       tokenCount = 0;
-      startTime = performance.now();
+      startTime = clock.now();
     },
   };
 }
 
+/**
+ * Fixed-size ring buffer; keeps the most recent `capacity` items
+ */
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private next = 0;
+  private readonly capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.next] = item;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /**
+   * Items oldest first
+   */
+  toArray(): T[] {
+    return this.items.length < this.capacity
+      ? [...this.items]
+      : [...this.items.slice(this.next), ...this.items.slice(0, this.next)];
+  }
+
+  clear(): void {
+    this.items = [];
+    this.next = 0;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+}
+
+/**
+ * One tick's timing: the interval that was scheduled vs the one measured
+ */
+export interface DriftSample {
+  expectedMs: number;
+  actualMs: number;
+  driftMs: number; // Lateness of this tick against its expected time
+}
+
+export interface SchedulerOptions {
+  /**
+   * A late tick shortens the next interval to catch up, but never below
+   * this share of it. 0 (default) runs immediately on the next animation
+   * frame when behind and resyncs.
+   */
+  minIntervalFraction?: number;
+  /** Drift samples kept for telemetry */
+  sampleCapacity?: number;
+  /** Time source; defaults to the real clock */
+  clock?: Clock;
+}
+
 /**
  * Drift-compensated scheduler class
+ *
+ * The interval may be a number or a function called after each tick for
+ * the next interval, so every RSVP frame can have its own duration.
  */
 export class DriftCompensatedScheduler {
   private state: TimingState;
-  private timerId: number | null = null;
+  private timeoutId: number | null = null;
+  private frameId: number | null = null;
   private isRunning = false;
+  private tick: (() => void) | null = null;
+  // Interval scheduled after the last tick, and when the next tick is due
+  private currentInterval = 0;
+  private nextTickTime = 0;
+  private readonly minIntervalFraction: number;
+  private readonly samples: RingBuffer<DriftSample>;
+  private readonly clock: Clock;
 
-  constructor() {
-    this.state = createTimingState();
+  constructor(options: SchedulerOptions = {}) {
+    this.clock = options.clock ?? realClock;
+    this.state = createTimingState(this.clock);
+    this.minIntervalFraction = options.minIntervalFraction ?? 0;
+    this.samples = new RingBuffer(options.sampleCapacity ?? 64);
   }
 
   /**
    * Start scheduling ticks
-   * @param callback Function to call on each tick
-   * @param intervalMs Target interval in milliseconds
+   * @param callback Function to call on each tick (and once immediately)
+   * @param interval Target interval in milliseconds, or a function returning
+   *   the interval until the next tick; called after each callback
    */
-  start(callback: () => void, intervalMs: number): void {
+  start(callback: () => void, interval: number | (() => number)): void {
     if (this.isRunning) return;
 
     this.isRunning = true;
-    this.state = createTimingState();
+    this.state = createTimingState(this.clock);
+    this.samples.clear();
+    const nextInterval = typeof interval === 'number' ? () => interval : interval;
 
-    const tick = () => {
+    this.tick = () => {
+      this.timeoutId = null;
+      this.frameId = null;
       if (!this.isRunning) return;
 
+      const now = this.clock.now();
+      this.recordSample(now);
       callback();
-
-      const delay = calculateNextTick(this.state, intervalMs);
-      if (delay >= 0) {
-        this.timerId = window.setTimeout(tick, delay);
-      } else {
-        // Running behind, schedule next tick immediately using requestAnimationFrame
-        this.timerId = window.requestAnimationFrame(() => {
-          if (this.isRunning) tick();
-        });
-      }
+      if (this.isRunning) this.scheduleNext(nextInterval(), now);
     };
 
     // Start immediately
     callback();
-    this.timerId = window.setTimeout(tick, intervalMs);
+    if (this.isRunning) this.scheduleNext(nextInterval(), this.clock.now());
   }
 
   /**
@@ -145,11 +225,25 @@ export class DriftCompensatedScheduler {
    */
   stop(): void {
     this.isRunning = false;
-    if (this.timerId !== null) {
-      window.clearTimeout(this.timerId);
-      window.cancelAnimationFrame(this.timerId);
-      this.timerId = null;
-    }
+    this.tick = null;
+    this.clearTimers();
+  }
+
+  /**
+   * Stretch or shrink the time left until the pending tick, without
+   * restarting (e.g. WPM changed mid-frame: factor = oldWPM / newWPM)
+   */
+  rescale(factor: number): void {
+    if (!this.isRunning || !this.tick || this.timeoutId === null || !(factor > 0)) return;
+
+    const now = this.clock.now();
+    const remaining = Math.max(0, this.nextTickTime - now) * factor;
+    this.currentInterval = (now - this.state.lastTickTime) + remaining;
+    this.nextTickTime = now + remaining;
+    this.state.expectedTime = this.nextTickTime;
+
+    this.clearTimers();
+    this.timeoutId = this.clock.setTimeout(this.tick, remaining);
   }
 
   /**
@@ -159,10 +253,75 @@ export class DriftCompensatedScheduler {
     return this.state.totalDrift;
   }
 
+  /**
+   * Recent drift samples, oldest first
+   */
+  getDriftSamples(): DriftSample[] {
+    return this.samples.toArray();
+  }
+
+  /**
+   * Measured time over scheduled time across the recent samples
+   * 1 means on schedule; 1.05 means ticks run 5% slow. 1 with no samples.
+   */
+  getTimingRatio(): number {
+    let expected = 0;
+    let actual = 0;
+    for (const sample of this.samples.toArray()) {
+      expected += sample.expectedMs;
+      actual += sample.actualMs;
+    }
+    return expected > 0 ? actual / expected : 1;
+  }
+
   /**
    * Check if currently running
    */
   active(): boolean {
     return this.isRunning;
   }
+
+  private recordSample(now: number): void {
+    const driftMs = now - this.state.expectedTime;
+    this.state.totalDrift = driftMs;
+    this.samples.push({
+      expectedMs: this.currentInterval,
+      actualMs: now - this.state.lastTickTime,
+      driftMs,
+    });
+  }
+
+  // Schedule the next tick `intervalMs` after the time this one was due
+  private scheduleNext(intervalMs: number, now: number): void {
+    if (!this.tick) return;
+
+    this.currentInterval = intervalMs;
+    this.state.lastTickTime = now;
+    const expected = this.state.expectedTime + intervalMs;
+    const delay = Math.max(intervalMs * this.minIntervalFraction, expected - now);
+
+    if (delay <= 0) {
+      // Running behind, schedule next tick immediately using requestAnimationFrame
+      this.state.expectedTime = now;
+      this.nextTickTime = now;
+      this.frameId = this.clock.requestFrame(this.tick);
+      return;
+    }
+
+    // Resync when the minimum interval kicked in, so lateness isn't carried forever
+    this.state.expectedTime = now + delay > expected ? now + delay : expected;
+    this.nextTickTime = now + delay;
+    this.timeoutId = this.clock.setTimeout(this.tick, delay);
+  }
+
+  private clearTimers(): void {
+    if (this.timeoutId !== null) {
+      this.clock.clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+    if (this.frameId !== null) {
+      this.clock.cancelFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
 }
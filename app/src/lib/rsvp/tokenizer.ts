@@ -1,47 +1,71 @@
-import type { Token, PauseProfile } from '../../types';
-
-// Pause profiles - multipliers for base word duration
-export const PAUSE_PROFILES: Record<string, PauseProfile> = {
-  fast: {
-    comma: 0.3,
-    semicolon: 0.3,
-    colon: 0.3,
-    period: 0.8,
-    exclamation: 0.8,
-    question: 0.8,
-    paragraph: 1.5,
-  },
-  normal: {
-    comma: 0.4,
-    semicolon: 0.4,
-    colon: 0.4,
-    period: 1.2,
-    exclamation: 1.2,
-    question: 1.2,
-    paragraph: 2.0,
-  },
-  slow: {
-    comma: 0.6,
-    semicolon: 0.6,
-    colon: 0.6,
-    period: 1.8,
-    exclamation: 1.8,
-    question: 1.8,
-    paragraph: 3.0,
-  },
-};
+import type {
+  Token,
+  TokenKind,
+  PauseProfile,
+  PauseBreakdown,
+  ChunkSettings,
+  NonLinearBlock,
+  NonLinearPolicy,
+} from '../../types';
+import { BLOCK_PLACEHOLDER, tableComplexity } from '../extract/non-linear';
+import { isRareWord } from './word-frequency';
+import {
+  detectLanguage,
+  needsSegmenter,
+  isIdeographicLanguage,
+  segmentWords,
+  splitWhitespace,
+  splitGraphemes,
+  getTextDirection,
+} from './segmenter';
+import { PAUSE_PROFILES } from './pause-profiles';
 
 /**
  * Calculate ORP (Optimal Recognition Point) index for a word
  * Based on Spritz patent algorithm
+ *
+ * For segmented and right-to-left scripts the rule runs on grapheme
+ * clusters and the result is converted back to a string index, so the pivot
+ * never lands inside a combining mark (Thai vowels, niqqud, harakat).
+ * Ideographs carry more per glyph, so CJK anchors earlier. RTL words count
+ * letters only: trailing punctuation renders on the far (left) side and
+ * must not push the anchor towards the end of the word.
  */
-export function calculateORPIndex(word: string): number {
-  const len = word.length;
-  if (len <= 2) return 0;
-  if (len <= 5) return 1;
-  if (len <= 9) return 2;
-  if (len <= 13) return 3;
-  return 4;
+export function calculateORPIndex(word: string, language?: string): number {
+  const isSegmented = language !== undefined && needsSegmenter(language);
+  const isRTL = getTextDirection(word) === 'rtl';
+
+  if (!isSegmented && !isRTL) {
+    const len = word.length;
+    if (len <= 2) return 0;
+    if (len <= 5) return 1;
+    if (len <= 9) return 2;
+    if (len <= 13) return 3;
+    return 4;
+  }
+
+  const graphemes = splitGraphemes(word);
+  let lead = 0;
+  let len = graphemes.length;
+
+  if (isRTL) {
+    const isLetter = (g: string) => /\p{L}/u.test(g);
+    const first = graphemes.findIndex(isLetter);
+    const last = graphemes.length - 1 - [...graphemes].reverse().findIndex(isLetter);
+    lead = Math.max(0, first);
+    len = first === -1 ? graphemes.length : last - first + 1;
+  }
+
+  let graphemeIndex: number;
+  if (language && isIdeographicLanguage(language)) {
+    if (len <= 2) graphemeIndex = 0;
+    else if (len <= 5) graphemeIndex = 1;
+    else graphemeIndex = Math.min(3, Math.floor(len / 3));
+  } else {
+    graphemeIndex = calculateORPIndex('x'.repeat(len));
+  }
+
+  return graphemes.slice(0, lead + graphemeIndex).join('').length;
 }
 
 /**
@@ -53,63 +77,464 @@ export function calculatePauseMultiplier(text: string, profile: PauseProfile = P
   // Check for paragraph break (multiple newlines)
   if (/\n\s*\n/.test(text)) return profile.paragraph;
 
-  // Check for sentence-ending punctuation
-  const lastChar = trimmed.at(-1);
-  if (lastChar === '.' || lastChar === '!' || lastChar === '?') {
-    return Math.max(profile.period, profile.exclamation, profile.question);
-  }
+  // Check for sentence-ending punctuation (ASCII and CJK full-width),
+  // looking through CJK closing quotes such as 。」
+  const lastChar = trimmed.replace(/[」』》〉】）]+$/u, '').at(-1);
+  if (lastChar === '.' || lastChar === '。') return profile.period;
+  if (lastChar === '!' || lastChar === '！') return profile.exclamation;
+  if (lastChar === '?' || lastChar === '？') return profile.question;
 
   // Check for clause punctuation
-  if (lastChar === ',' || lastChar === ';') return profile.comma;
-  if (lastChar === ':') return profile.colon;
+  if (lastChar === ',' || lastChar === '、' || lastChar === '，') return profile.comma;
+  if (lastChar === ';' || lastChar === '；') return profile.semicolon;
+  if (lastChar === ':' || lastChar === '：') return profile.colon;
 
   // Default: no extra pause
   return 0;
 }
 
+/**
+ * Check whether a word ends a sentence (ASCII or CJK full stop, ! or ?),
+ * allowing closing quotes and brackets after the punctuation
+ */
+export function isSentenceEnd(word: string): boolean {
+  return /[.!?。！？]["'”’)\]」』》〉】）]*$/u.test(word);
+}
+
+/**
+ * Calculate complexity pauses for a word, keyed by factor
+ * Long words, numbers, acronyms/mixed case and rare words each add
+ * their own profile weight on top of any punctuation pause
+ */
+export function calculateComplexityBreakdown(
+  word: string,
+  profile: PauseProfile = PAUSE_PROFILES.normal
+): PauseBreakdown {
+  const breakdown: PauseBreakdown = {};
+  const core = word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+  if (!core) return breakdown;
+
+  // Length: per character beyond 7, capped so huge compounds stay readable
+  const extraChars = Math.min(12, Math.max(0, core.length - 7));
+  if (extraChars > 0 && profile.longWord > 0) {
+    breakdown.length = profile.longWord * extraChars;
+  }
+
+  // Numbers: long figures (phone numbers, years with units) get half again
+  const digitCount = (core.match(/\d/g) || []).length;
+  if (digitCount > 0 && profile.numeric > 0) {
+    breakdown.numeric = profile.numeric * (digitCount > 4 ? 1.5 : 1);
+  }
+
+  // Acronyms (NASA, APIs) and internal capitals (iPhone, JavaScript)
+  const isAcronym = /^\p{Lu}{2,}s?$/u.test(core);
+  const hasInnerCapital = /\p{Ll}\p{Lu}/u.test(core);
+  if ((isAcronym || hasInnerCapital) && profile.mixedCase > 0) {
+    breakdown.mixedCase = profile.mixedCase;
+  }
+
+  // Rare words: not in the bundled frequency list (names like iPhone already counted above)
+  // The list is English, so only Latin-script words are checked
+  const isLatin = /^[\p{Script=Latin}']+$/u.test(core);
+  if (isLatin && digitCount === 0 && !breakdown.mixedCase && profile.rareWord > 0 && isRareWord(core)) {
+    breakdown.rare = profile.rareWord;
+  }
+
+  return breakdown;
+}
+
+/**
+ * Total pause multiplier from a breakdown
+ */
+export function sumPauseBreakdown(breakdown: PauseBreakdown): number {
+  return Object.values(breakdown).reduce((sum, value) => sum + (value || 0), 0);
+}
+
+/**
+ * Check whether a token ends on punctuation or a paragraph break
+ */
+export function hasStructuralPause(token: Pick<Token, 'pauseBreakdown'>): boolean {
+  return Boolean(token.pauseBreakdown.punctuation || token.pauseBreakdown.paragraph);
+}
+
+const PAUSE_FACTOR_LABELS: Record<keyof PauseBreakdown, string> = {
+  punctuation: 'punctuation',
+  paragraph: 'paragraph break',
+  length: 'long word',
+  numeric: 'number',
+  mixedCase: 'acronym',
+  rare: 'rare word',
+};
+
+/**
+ * Human-readable reasons for a token's extra time, largest first
+ */
+export function describePauseBreakdown(breakdown: PauseBreakdown): string[] {
+  return (Object.entries(breakdown) as Array<[keyof PauseBreakdown, number]>)
+    .filter(([, value]) => value > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([factor]) => PAUSE_FACTOR_LABELS[factor]);
+}
+
+export interface TokenizeOptions {
+  chunking?: ChunkSettings;
+  language?: string; // BCP 47 tag; detected from the text when omitted
+  blocks?: NonLinearBlock[]; // Blocks for BLOCK_PLACEHOLDER lines, in order
+  nonLinear?: NonLinearPolicy; // Without a policy, placeholder lines are dropped
+}
+
+/**
+ * Calculate ORP index for a multi-word chunk
+ * Anchors on the word sitting about a third of the way into the chunk,
+ * so the eye lands slightly left of centre as it does for single words
+ */
+export function calculateChunkORPIndex(words: string[], language?: string): number {
+  const text = words.join(' ');
+  const target = Math.floor(text.length * 0.35);
+
+  let offset = 0;
+  for (const word of words) {
+    if (target < offset + word.length + 1) {
+      return offset + calculateORPIndex(word, language);
+    }
+    offset += word.length + 1;
+  }
+
+  return calculateORPIndex(text, language);
+}
+
+/**
+ * Combine word breakdowns for a chunk: complexity pauses add up across
+ * words, punctuation and paragraph pauses come from the last word only
+ */
+function mergeChunkBreakdown(words: Token[]): PauseBreakdown {
+  const merged: PauseBreakdown = {};
+  const last = words[words.length - 1].pauseBreakdown;
+
+  for (const word of words) {
+    for (const [factor, value] of Object.entries(word.pauseBreakdown) as Array<[keyof PauseBreakdown, number]>) {
+      if (factor === 'punctuation' || factor === 'paragraph') continue;
+      merged[factor] = (merged[factor] || 0) + value;
+    }
+  }
+
+  if (last.punctuation) merged.punctuation = last.punctuation;
+  if (last.paragraph) merged.paragraph = last.paragraph;
+  return merged;
+}
+
+/**
+ * Group consecutive word tokens into multi-word frames
+ * A chunk closes when it reaches `size` words, would exceed `maxChars`,
+ * or (unless crossPunctuation is set) its last word carries a pause
+ */
+export function chunkTokens(tokens: Token[], chunking: ChunkSettings, language?: string): Token[] {
+  if (chunking.size <= 1) return tokens;
+
+  const chunks: Token[] = [];
+  let pending: Token[] = [];
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    if (pending.length === 1) {
+      chunks.push(pending[0]);
+    } else {
+      const words = pending.map((t) => t.text);
+      const pauseBreakdown = mergeChunkBreakdown(pending);
+      chunks.push({
+        text: words.join(' '),
+        orpIndex: calculateChunkORPIndex(words, language),
+        pauseMultiplier: sumPauseBreakdown(pauseBreakdown),
+        pauseBreakdown,
+        wordCount: pending.reduce((sum, t) => sum + t.wordCount, 0),
+        direction: getTextDirection(words.join(' ')),
+        start: pending[0].start,
+        end: pending[pending.length - 1].end,
+        sentenceIndex: pending[0].sentenceIndex,
+        paragraphIndex: pending[0].paragraphIndex,
+        kind: 'word',
+      });
+    }
+    pending = [];
+  };
+
+  for (const token of tokens) {
+    // Markers and snapshot frames always stand alone
+    if (token.kind !== 'word') {
+      flush();
+      chunks.push(token);
+      continue;
+    }
+
+    const pendingLength = pending.reduce((sum, t) => sum + t.text.length + 1, 0);
+    if (pending.length > 0 && pendingLength + token.text.length > chunking.maxChars) {
+      flush();
+    }
+
+    pending.push(token);
+
+    const isFull = pending.length >= chunking.size;
+    const breaksHere = hasStructuralPause(token) && !chunking.crossPunctuation;
+    if (isFull || breaksHere) flush();
+  }
+
+  flush();
+  return chunks;
+}
+
+interface TokenPosition {
+  start: number;
+  sentenceIndex: number;
+  paragraphIndex: number;
+}
+
+/**
+ * Build a single word token with ORP, pause breakdown and position
+ */
+function createWordToken(
+  word: string,
+  profile: PauseProfile,
+  language: string,
+  isEndOfParagraph: boolean,
+  position: TokenPosition
+): Token {
+  const pauseBreakdown = calculateComplexityBreakdown(word, profile);
+  const punctuationPause = calculatePauseMultiplier(word, profile);
+
+  // Paragraph break replaces the punctuation pause when it is longer
+  if (isEndOfParagraph && profile.paragraph >= punctuationPause) {
+    pauseBreakdown.paragraph = profile.paragraph;
+  } else if (punctuationPause > 0) {
+    pauseBreakdown.punctuation = punctuationPause;
+  }
+
+  return {
+    text: word,
+    orpIndex: calculateORPIndex(word, language),
+    pauseMultiplier: sumPauseBreakdown(pauseBreakdown),
+    pauseBreakdown,
+    wordCount: 1,
+    direction: getTextDirection(word),
+    start: position.start,
+    end: position.start + word.length,
+    sentenceIndex: position.sentenceIndex,
+    paragraphIndex: position.paragraphIndex,
+    kind: 'word',
+  };
+}
+
+const BLOCK_LABELS: Record<NonLinearBlock['kind'], string> = {
+  table: 'Table',
+  figure: 'Figure',
+  equation: 'Equation',
+};
+
+/**
+ * Turn a table, figure or equation into tokens according to the policy
+ * - skip: a marker frame if showMarkers, otherwise nothing
+ * - snapshot: one frame holding the block for snapshotMs
+ * - linearize (tables): one sentence per row, "Header: cell, Header: cell."
+ * Every token points at the placeholder's offset in the source text.
+ */
+function tokenizeBlock(
+  block: NonLinearBlock,
+  policy: NonLinearPolicy,
+  profile: PauseProfile,
+  language: string,
+  position: TokenPosition
+): Token[] {
+  const label = BLOCK_LABELS[block.kind];
+  const mode = block.kind === 'table' ? policy.tables : block.kind === 'figure' ? policy.figures : policy.equations;
+
+  const frame = (kind: TokenKind, text: string): Token => ({
+    text,
+    orpIndex: 0,
+    pauseMultiplier: 0,
+    pauseBreakdown: {},
+    wordCount: 0,
+    direction: getTextDirection(text),
+    start: position.start,
+    end: position.start + BLOCK_PLACEHOLDER.length,
+    sentenceIndex: position.sentenceIndex,
+    paragraphIndex: position.paragraphIndex,
+    kind,
+  });
+
+  if (mode === 'skip') {
+    // Markers count as no words but stay on screen for one word's time
+    return policy.showMarkers ? [{ ...frame('marker', `[${label}]`), pauseMultiplier: 1 }] : [];
+  }
+
+  const rows = block.rows || [];
+  if (mode === 'linearize' && rows.length > 1 && tableComplexity(rows) <= policy.linearizeThreshold) {
+    const [header, ...body] = rows;
+    const tokens: Token[] = [];
+    let sentenceIndex = position.sentenceIndex;
+
+    body.forEach((row, r) => {
+      const phrase = row
+        .map((cell, c) => (header[c] && cell ? `${header[c]}: ${cell}` : cell))
+        .filter(Boolean)
+        .join(', ');
+      const words = phrase.split(/\s+/).filter(Boolean);
+
+      words.forEach((word, w) => {
+        const isRowEnd = w === words.length - 1;
+        const text = isRowEnd && !isSentenceEnd(word) ? `${word}.` : word;
+        const token = createWordToken(text, profile, language, isRowEnd && r === body.length - 1, {
+          ...position,
+          sentenceIndex,
+        });
+        tokens.push({ ...token, end: position.start + BLOCK_PLACEHOLDER.length });
+      });
+      sentenceIndex++;
+    });
+
+    return tokens;
+  }
+
+  // Snapshot (also the fallback for tables too large to linearize)
+  return [{
+    ...frame(block.kind, block.caption || label),
+    block,
+    fixedDurationMs: policy.snapshotMs,
+  }];
+}
+
 /**
  * Tokenize text into RSVP tokens with ORP and pause info
  */
-export function tokenize(text: string, profile: PauseProfile = PAUSE_PROFILES.normal): Token[] {
-  const lines = text.split(/\r?\n/);
+export function tokenize(
+  text: string,
+  profile: PauseProfile = PAUSE_PROFILES.normal,
+  options: TokenizeOptions = {}
+): Token[] {
   const tokens: Token[] = [];
+  const language = options.language ?? detectLanguage(text);
+  const useSegmenter = needsSegmenter(language);
+
+  // Walk lines by hand (rather than split) to keep absolute character offsets
+  const lineBreak = /\r?\n/g;
+  const lines: Array<{ text: string; start: number }> = [];
+  let lineStart = 0;
+  for (const match of text.matchAll(lineBreak)) {
+    lines.push({ text: text.slice(lineStart, match.index), start: lineStart });
+    lineStart = (match.index ?? 0) + match[0].length;
+  }
+  lines.push({ text: text.slice(lineStart), start: lineStart });
+
+  let paragraphIndex = 0;
+  let sentenceIndex = 0;
+  let blockIndex = 0;
 
   for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
+    const line = lines[i].text;
+    if (!line.trim()) continue;
 
-    const words = line.split(/\s+/);
+    // Table, figure or equation lifted out by the extractor
+    if (line.trim() === BLOCK_PLACEHOLDER) {
+      const block = options.blocks?.[blockIndex++];
+      if (block && options.nonLinear) {
+        const position = { start: lines[i].start, sentenceIndex, paragraphIndex };
+        const blockTokens = tokenizeBlock(block, options.nonLinear, profile, language, position);
+        if (blockTokens.length === 0) continue;
+        tokens.push(...blockTokens);
+        sentenceIndex = blockTokens[blockTokens.length - 1].sentenceIndex + 1;
+        paragraphIndex++;
+      }
+      continue;
+    }
+
+    const words = useSegmenter ? segmentWords(line, language) : splitWhitespace(line);
 
     for (let j = 0; j < words.length; j++) {
-      const word = words[j];
-      if (!word) continue;
+      const word = words[j].text;
 
-      // Check if this is end of sentence/paragraph
-      const isEndOfSentence = /[.!?]$/.test(word);
+      // Check if this is end of paragraph
       const isEndOfParagraph = j === words.length - 1 && i < lines.length - 1;
 
-      let pauseMultiplier = calculatePauseMultiplier(word, profile);
-
-      // Add paragraph break pause if this is end of paragraph
-      if (isEndOfParagraph) {
-        pauseMultiplier = Math.max(pauseMultiplier, profile.paragraph);
-      }
+      tokens.push(createWordToken(word, profile, language, isEndOfParagraph, {
+        start: lines[i].start + words[j].start,
+        sentenceIndex,
+        paragraphIndex,
+      }));
 
-      tokens.push({
-        text: word,
-        orpIndex: calculateORPIndex(word),
-        pauseMultiplier,
-      });
+      if (isSentenceEnd(word) && j < words.length - 1) sentenceIndex++;
     }
+
+    // A paragraph always closes its last sentence
+    sentenceIndex++;
+    paragraphIndex++;
   }
 
-  return tokens;
+  return options.chunking ? chunkTokens(tokens, options.chunking, language) : tokens;
 }
 
 /**
  * Calculate display time for a token in milliseconds
+ * Chunks get one base slot per word so WPM holds in chunk mode
  */
-export function getTokenDuration(wpm: number, pauseMultiplier: number): number {
+export function getTokenDuration(wpm: number, pauseMultiplier: number, wordCount: number = 1): number {
   const baseMsPerWord = 60000 / wpm;
-  return baseMsPerWord * (1 + pauseMultiplier);
+  return baseMsPerWord * (wordCount + pauseMultiplier);
+}
+
+/**
+ * Display time for a frame: fixed for snapshots, WPM-based otherwise
+ */
+export function getFrameDuration(
+  token: Pick<Token, 'pauseMultiplier' | 'wordCount' | 'fixedDurationMs'>,
+  wpm: number
+): number {
+  return token.fixedDurationMs ?? getTokenDuration(wpm, token.pauseMultiplier, token.wordCount);
+}
+
+/**
+ * Cumulative word counts: offsets[i] is the number of words before token i,
+ * offsets[tokens.length] is the total word count
+ */
+export function buildWordOffsets(tokens: Array<Pick<Token, 'wordCount'>>): number[] {
+  const offsets = new Array<number>(tokens.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    offsets[i + 1] = offsets[i] + (tokens[i].wordCount ?? 1);
+  }
+  return offsets;
+}
+
+/**
+ * Find the token that contains a given word position
+ */
+export function tokenIndexForWord(offsets: number[], wordIndex: number): number {
+  let lo = 0;
+  let hi = offsets.length - 2;
+  if (hi < 0) return 0;
+
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (offsets[mid] <= wordIndex) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo;
+}
+
+/**
+ * Find the token at (or first after) a character offset in the source text
+ */
+export function tokenIndexAtOffset(tokens: Array<Pick<Token, 'end'>>, offset: number): number {
+  let lo = 0;
+  let hi = tokens.length;
+
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (tokens[mid].end <= offset) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
 }
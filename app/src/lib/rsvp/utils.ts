@@ -2,6 +2,60 @@
  * RSVP Utility Functions
  */
 
+import { splitGraphemes } from './segmenter';
+
+/**
+ * Split a token's text around its ORP
+ * The pivot is the whole grapheme cluster at orpIndex, so combining marks
+ * (Thai vowels, tone marks) and surrogate pairs stay with their base letter.
+ */
+export function splitAtORP(
+  text: string,
+  orpIndex: number
+): { prefix: string; pivot: string; suffix: string } {
+  const prefix = text.slice(0, orpIndex);
+  const pivot = splitGraphemes(text.slice(orpIndex))[0] || '';
+  const suffix = text.slice(orpIndex + pivot.length);
+  return { prefix, pivot, suffix };
+}
+
+// Arabic letters that connect only to the letter before them
+const RIGHT_JOINING_ARABIC = new Set(['ا', 'أ', 'إ', 'آ', 'ٱ', 'د', 'ذ', 'ر', 'ز', 'ژ', 'و', 'ؤ', 'ة', 'ى']);
+const ZWJ = '\u200D';
+
+function isArabicLetter(ch: string | undefined): ch is string {
+  return ch !== undefined && ch !== 'ء' && /\p{Script=Arabic}/u.test(ch) && /\p{L}/u.test(ch);
+}
+
+/**
+ * Keep Arabic cursive joins intact across the prefix/pivot/suffix spans
+ * Splitting a word into separate elements breaks contextual shaping, so a
+ * zero-width joiner is added on both sides of every boundary where the two
+ * letters would normally connect.
+ */
+export function preserveJoining(parts: { prefix: string; pivot: string; suffix: string }): {
+  prefix: string;
+  pivot: string;
+  suffix: string;
+} {
+  const lastLetter = (text: string) => text.replace(/\p{M}+$/u, '').at(-1);
+  const joins = (before: string, after: string) => {
+    const a = lastLetter(before);
+    return isArabicLetter(a) && !RIGHT_JOINING_ARABIC.has(a) && isArabicLetter(after.at(0));
+  };
+
+  let { prefix, pivot, suffix } = parts;
+  if (prefix && pivot && joins(prefix, pivot)) {
+    prefix += ZWJ;
+    pivot = ZWJ + pivot;
+  }
+  if (pivot && suffix && joins(parts.pivot, suffix)) {
+    pivot += ZWJ;
+    suffix = ZWJ + suffix;
+  }
+  return { prefix, pivot, suffix };
+}
+
 /**
  * Measure text width using canvas for accurate display measurements
  */
@@ -39,9 +93,7 @@ export function calculateBalancedOrpPosition(
   suffixWidth: number;
   totalWidth: number;
 } {
-  const prefix = text.slice(0, orpIndex);
-  const orpChar = text[orpIndex] || '';
-  const suffix = text.slice(orpIndex + 1);
+  const { prefix, pivot: orpChar, suffix } = splitAtORP(text, orpIndex);
 
   const prefixWidth = measureTextWidth(prefix, fontSize, fontFamily, fontWeight);
   const orpCharWidth = measureTextWidth(orpChar, fontSize, fontFamily, fontWeight);
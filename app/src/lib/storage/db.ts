@@ -1,5 +1,7 @@
 import Dexie, { type Table } from 'dexie';
-import type { Document, Session, UserSettings } from '../../types';
+import type { Document, Session, UserSettings, CustomPauseProfile, ReadingEvent } from '../../types';
+import { DEFAULT_NON_LINEAR_POLICY } from '../extract/non-linear';
+import { hashContent, normalizeUrl } from './identity';
 
 /**
  * Glide Reader Database - IndexedDB via Dexie
@@ -8,6 +10,8 @@ export class GlideDatabase extends Dexie {
   documents!: Table<Document>;
   sessions!: Table<Session>;
   settings!: Table<UserSettings>;
+  pauseProfiles!: Table<CustomPauseProfile>;
+  readingEvents!: Table<ReadingEvent, number>;
 
   constructor() {
     super('GlideReaderDB');
@@ -18,9 +22,70 @@ export class GlideDatabase extends Dexie {
       sessions: 'id, documentId, startedAt, endedAt',
       settings: 'key',
     });
+
+    // v2: user-defined pause profiles
+    this.version(2).stores({
+      pauseProfiles: 'id, name, updatedAt',
+    });
+
+    // v3: per-session reading event log
+    this.version(3).stores({
+      readingEvents: '++id, sessionId',
+    });
+
+    // v4: hierarchical chapters; stored flat chapters become top-level
+    this.version(4).stores({}).upgrade((tx) =>
+      tx.table<Document>('documents').toCollection().modify((doc) => {
+        doc.chapters = (doc.chapters ?? []).map((chapter) => ({ ...chapter, level: chapter.level ?? 1 }));
+      })
+    );
+
+    // v5: content hashes and normalised URLs, so re-imports find their document
+    this.version(5).stores({
+      documents: 'id, sourceType, sourceUrl, contentHash, createdAt, updatedAt, completedAt',
+    }).upgrade((tx) =>
+      tx.table<Document>('documents').toCollection().modify((doc) => {
+        doc.contentHash = hashContent(doc.canonicalText);
+        if (doc.sourceUrl) doc.sourceUrl = normalizeUrl(doc.sourceUrl);
+      })
+    );
   }
 }
 
+/**
+ * Default settings for a fresh install
+ * Also fills in fields added after a user's settings row was first written
+ */
+export const DEFAULT_SETTINGS: UserSettings = {
+  defaultWPM: 300,
+  pauseProfile: 'normal',
+  fontSize: 'M',
+  guidesOn: true,
+  heatmapOn: false,
+  countdownSeconds: 0,
+  theme: 'dark',
+  nonLinearPolicy: DEFAULT_NON_LINEAR_POLICY,
+  chunking: {
+    size: 1,
+    maxChars: 16,
+    crossPunctuation: false,
+  },
+  speedRamp: {
+    enabled: false,
+    startFraction: 0.6,
+    unit: 'seconds',
+    length: 5,
+    seekLength: 2,
+  },
+  adaptiveWpm: {
+    enabled: false,
+    floor: 250,
+    ceiling: 600,
+    step: 20,
+  },
+  language: 'auto',
+};
+
 // Singleton instance
 export const db = new GlideDatabase();
 
@@ -32,25 +97,7 @@ export async function initDB(): Promise<void> {
 
   const settingsCount = await db.settings.count();
   if (settingsCount === 0) {
-    await db.settings.bulkPut([
-      {
-        key: 'default',
-        defaultWPM: 300,
-        pauseProfile: 'normal',
-        fontSize: 'M',
-        guidesOn: true,
-        countdownSeconds: 0,
-        theme: 'dark',
-        nonLinearPolicy: {
-          tables: 'skip',
-          figures: 'skip',
-          equations: 'skip',
-          showMarkers: true,
-          snapshotMs: 1200,
-          linearizeThreshold: 0.7,
-        },
-      },
-    ]);
+    await db.settings.bulkPut([{ key: 'default', ...DEFAULT_SETTINGS }]);
   }
 }
 
@@ -62,7 +109,7 @@ export async function getSettings(): Promise<UserSettings> {
   if (!settings) {
     throw new Error('Settings not found. DB not initialized?');
   }
-  return settings;
+  return { ...DEFAULT_SETTINGS, ...settings };
 }
 
 /**
@@ -74,4 +121,4 @@ export async function updateSettings(updates: Partial<UserSettings>): Promise<vo
 }
 
 // Export Dexie types for use in other modules
-export type { Document, Session, UserSettings };
+export type { Document, Session, UserSettings, CustomPauseProfile, ReadingEvent };
@@ -1,34 +1,71 @@
 import { v4 as uuidv4 } from 'uuid';
 import { db } from './db';
-import type { Document, Position, Chapter } from '../../types';
-import { tokenize, PAUSE_PROFILES } from '../rsvp';
+import { getActivePauseProfile } from './pause-profile-store';
+import type { Document, NonLinearBlock, TextHeading } from '../../types';
+import { tokenize, buildWordOffsets, detectChapters, chaptersInWords, isResumablePosition, COMPLETION_RATIO } from '../rsvp';
+import { detectLanguage } from '../rsvp/segmenter';
+import { DEFAULT_NON_LINEAR_POLICY } from '../extract/non-linear';
+import { hashContent, normalizeUrl } from './identity';
 
 /**
  * Document Store - CRUD operations for documents
  */
 
+export interface CreateDocumentOptions {
+  sourceUrl?: string;
+  languageHint?: string; // e.g. a page's lang attribute
+  blocks?: NonLinearBlock[]; // Tables/figures/equations for placeholder lines in text
+  headings?: TextHeading[]; // Source structure: HTML h1-h3, PDF outline or EPUB TOC
+  author?: string;
+  cover?: string; // Data URL
+}
+
 /**
- * Create a new document from text
+ * Create a document from text, or reopen the stored one with the same text
+ * A web page is matched by its normalised URL and unchanged content; other
+ * sources by content alone. A reopened document keeps its lastPosition.
+ * The language comes from the user override, then languageHint, then
+ * detection from the text itself.
  */
 export async function createDocument(
   title: string,
   text: string,
-  sourceType: 'web' | 'paste' | 'pdf',
-  sourceUrl?: string
+  sourceType: Document['sourceType'],
+  options: CreateDocumentOptions = {}
 ): Promise<Document> {
-  const settings = await db.settings.get('default');
-  const pauseProfile = PAUSE_PROFILES[settings?.pauseProfile || 'normal'];
+  const { languageHint, blocks, headings, author, cover } = options;
+  const sourceUrl = options.sourceUrl ? normalizeUrl(options.sourceUrl) : undefined;
+  const contentHash = hashContent(text);
 
-  const tokens = tokenize(text, pauseProfile);
-  const chapters = detectChapters(text, tokens);
+  const existing = await findDocument(contentHash, sourceUrl);
+  if (existing) return existing;
+
+  const settings = await db.settings.get('default');
+  const pauseProfile = await getActivePauseProfile();
+  const override = settings?.language && settings.language !== 'auto' ? settings.language : undefined;
+  const language = detectLanguage(text, override ?? languageHint);
+
+  // Chapter boundaries use the same policy the reader will tokenize with
+  const tokens = tokenize(text, pauseProfile, {
+    language,
+    blocks,
+    nonLinear: { ...DEFAULT_NON_LINEAR_POLICY, ...settings?.nonLinearPolicy },
+  });
+  // Positions are stored in words, so the total and chapter bounds are too
+  const chapters = chaptersInWords(detectChapters(text, tokens, headings), tokens);
 
   const doc: Document = {
     id: uuidv4(),
     title,
+    author,
+    cover,
     sourceType,
     sourceUrl,
     canonicalText: text,
-    totalTokens: tokens.length,
+    contentHash,
+    blocks,
+    language,
+    totalTokens: buildWordOffsets(tokens)[tokens.length],
     chapters,
     lastPosition: {
       tokenIndex: 0,
@@ -42,6 +79,16 @@ export async function createDocument(
   return doc;
 }
 
+/**
+ * Stored document with this content (and source URL, if given)
+ */
+async function findDocument(contentHash: string, sourceUrl?: string): Promise<Document | undefined> {
+  const matches = sourceUrl
+    ? await db.documents.where('sourceUrl').equals(sourceUrl).toArray()
+    : await db.documents.where('contentHash').equals(contentHash).toArray();
+  return matches.find((doc) => doc.contentHash === contentHash);
+}
+
 /**
  * Get document by ID
  */
@@ -70,8 +117,24 @@ export async function getCompletedDocuments(): Promise<Document[]> {
   return db.documents.filter((doc) => doc.completedAt !== undefined).toArray();
 }
 
+/**
+ * Get documents from one kind of source
+ */
+export async function getDocumentsBySource(sourceType: Document['sourceType']): Promise<Document[]> {
+  return db.documents.where('sourceType').equals(sourceType).toArray();
+}
+
+/**
+ * Whether a document has a position worth offering to resume from
+ */
+export function hasResumePosition(doc: Document): boolean {
+  return isResumablePosition(doc.lastPosition.tokenIndex, doc.totalTokens);
+}
+
 /**
  * Update document last position
+ * completedAt records the first time the end is reached; going back to
+ * re-read part of a finished document keeps it.
  */
 export async function updateDocumentPosition(
   id: string,
@@ -81,7 +144,7 @@ export async function updateDocumentPosition(
   if (!doc) throw new Error('Document not found');
 
   const completionRatio = tokenIndex / doc.totalTokens;
-  const isComplete = completionRatio >= 0.95;
+  const isComplete = completionRatio >= COMPLETION_RATIO;
 
   await db.documents.update(id, {
     lastPosition: {
@@ -89,7 +152,7 @@ export async function updateDocumentPosition(
       updatedAt: new Date(),
     },
     updatedAt: new Date(),
-    completedAt: isComplete ? new Date() : undefined,
+    ...(isComplete && !doc.completedAt ? { completedAt: new Date() } : {}),
   });
 }
 
@@ -98,69 +161,8 @@ export async function updateDocumentPosition(
  */
 export async function deleteDocument(id: string): Promise<void> {
   await db.documents.delete(id);
-  // Also delete associated sessions
-  await db.sessions.where('documentId').equals(id).delete();
-}
-
-/**
- * Simple chapter detection from headings
- * For paste/pdf, uses paragraph breaks or word count segmentation
- */
-function detectChapters(text: string, tokens: any[]): Chapter[] {
-  const chapters: Chapter[] = [];
-
-  // Try to detect markdown-style headings
-  const headingRegex = /^(#{1,3})\s+(.+)$/gm;
-  let match;
-  const headings: Array<{ index: number; title: string; level: number }> = [];
-
-  while ((match = headingRegex.exec(text)) !== null) {
-    const level = match[1].length;
-    const title = match[2].trim();
-    // Estimate token index (rough approximation)
-    const index = text.substring(0, match.index).split(/\s+/).length;
-    headings.push({ index, title, level });
-  }
-
-  if (headings.length > 0) {
-    // Create chapters from headings
-    for (let i = 0; i < headings.length; i++) {
-      const start = headings[i].index;
-      const end = i < headings.length - 1 ? headings[i + 1].index : tokens.length;
-
-      chapters.push({
-        id: uuidv4(),
-        title: headings[i].title,
-        startTokenIndex: start,
-        endTokenIndex: end,
-      });
-    }
-  } else {
-    // No headings found - segment by word count (~1000 words per chapter)
-    const wordsPerChapter = 1000;
-    let chapterIndex = 0;
-
-    while (chapterIndex * wordsPerChapter < tokens.length) {
-      const start = chapterIndex * wordsPerChapter;
-      const end = Math.min((chapterIndex + 1) * wordsPerChapter, tokens.length);
-
-      chapters.push({
-        id: uuidv4(),
-        title: `Section ${chapterIndex + 1}`,
-        startTokenIndex: start,
-        endTokenIndex: end,
-      });
-
-      chapterIndex++;
-    }
-  }
-
-  return chapters.length > 0 ? chapters : [
-    {
-      id: uuidv4(),
-      title: 'Full Text',
-      startTokenIndex: 0,
-      endTokenIndex: tokens.length,
-    },
-  ];
+  // Also delete associated sessions and their reading events
+  const sessionIds = await db.sessions.where('documentId').equals(id).primaryKeys();
+  await db.readingEvents.where('sessionId').anyOf(sessionIds as string[]).delete();
+  await db.sessions.bulkDelete(sessionIds);
 }
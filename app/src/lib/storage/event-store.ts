@@ -0,0 +1,321 @@
+import { db } from './db';
+import type { ReadingEvent, Token } from '../../types';
+import type { PlaybackController } from '../rsvp/playback';
+import { buildWordOffsets } from '../rsvp/tokenizer';
+
+/**
+ * Event Store - per-session reading event log
+ *
+ * Playback is recorded as a compact event stream (play, pause, seek, WPM
+ * change, end and one read span per sentence); session stats are derived
+ * from the stored stream rather than sampled.
+ */
+
+/**
+ * Session stats derived from the event log
+ */
+export interface ReadingStats {
+  durationSeconds: number; // Time spent playing, pauses excluded
+  tokensRead: number; // Distinct words shown; skipped text doesn't count
+  effectiveWPM: number; // Words shown per minute of playing time
+  bestSustainedWPM60s: number; // Most words shown in any 60 s of playing time
+  pauses: number;
+  rewinds: number; // Backward seeks; a scrub gesture counts once
+}
+
+/**
+ * One slice of a document in the reading heatmap
+ */
+export interface HeatBucket {
+  startWord: number;
+  pauses: number;
+  rewinds: number; // Rewinds whose replayed span covers this slice
+  slowdowns: number; // WPM lowered here, by hand or by adaptive speed
+  heat: number; // 0..1, relative to the hottest slice
+}
+
+export interface EventRecorder {
+  /** Whether anything has been recorded yet */
+  hasEvents: () => boolean;
+  /** Write buffered events, the open read span included, to IndexedDB */
+  flush: () => Promise<void>;
+  /** Stop recording and flush */
+  dispose: () => Promise<void>;
+}
+
+// Heat weight of each signal
+const HEAT_WEIGHTS = { pauses: 1, rewinds: 2, slowdowns: 1 } as const;
+
+// Buffered events written in one batch once this many pile up
+const FLUSH_THRESHOLD = 200;
+const SUSTAINED_WINDOW_MS = 60000;
+
+/**
+ * Get a session's events in recorded order
+ */
+export async function getSessionEvents(sessionId: string): Promise<ReadingEvent[]> {
+  // Index order within one sessionId is primary-key (recorded) order
+  return await db.readingEvents.where('sessionId').equals(sessionId).toArray();
+}
+
+/**
+ * Get the events of every session of a document, grouped by session
+ */
+export async function getDocumentEvents(documentId: string): Promise<ReadingEvent[]> {
+  const sessionIds = await db.sessions.where('documentId').equals(documentId).primaryKeys();
+  if (sessionIds.length === 0) return [];
+  return await db.readingEvents.where('sessionId').anyOf(sessionIds as string[]).toArray();
+}
+
+/**
+ * Record a PlaybackController's events for a session
+ * Frame indices are converted to word indices, so the log doesn't depend
+ * on chunking. Frames shown in a row are logged as one read span per
+ * sentence; buffered events are flushed on pause and end, and only the
+ * unwritten ones are kept in memory.
+ */
+export function createEventRecorder(
+  playback: PlaybackController,
+  sessionId: string,
+  now: () => number = () => Date.now()
+): EventRecorder {
+  let pending: ReadingEvent[] = [];
+  let recorded = false;
+  // Words shown in a row since the span started; closed by a new sentence, a jump, pause or end
+  let span: { from: number; to: number; sentence: number } | null = null;
+  let offsetsFor: Token[] | null = null;
+  let offsets: number[] = [];
+
+  const wordIndex = (index: number): number => {
+    const { tokens } = playback.getState();
+    if (tokens !== offsetsFor) {
+      offsetsFor = tokens;
+      offsets = buildWordOffsets(tokens);
+    }
+    return offsets[index] ?? index;
+  };
+
+  const write = async () => {
+    if (pending.length === 0) return;
+    const batch = pending;
+    pending = [];
+    try {
+      await db.readingEvents.bulkAdd(batch);
+    } catch (error) {
+      // Keep the batch for the next flush
+      pending = batch.concat(pending);
+      throw error;
+    }
+  };
+
+  // Writes run one at a time, so a flush settles once everything recorded before it is stored
+  let writing: Promise<void> = Promise.resolve();
+  const flush = () => {
+    closeSpan();
+    writing = writing.catch(() => {}).then(write);
+    return writing;
+  };
+
+  const record = (event: Omit<ReadingEvent, 'sessionId' | 'at'>) => {
+    const entry = { sessionId, at: now(), ...event };
+    recorded = true;
+    pending.push(entry);
+    if (pending.length >= FLUSH_THRESHOLD || event.type === 'pause' || event.type === 'end') {
+      // A failed write leaves the events pending; the next flush retries them
+      flush().catch(() => {});
+    }
+  };
+
+  function closeSpan(): void {
+    if (!span) return;
+    const { from, to } = span;
+    span = null;
+    record({ type: 'read', index: to, from });
+  }
+
+  const unsubscribers = [
+    playback.on('play', ({ index }) => record({ type: 'play', index: wordIndex(index) })),
+    playback.on('pause', ({ index }) => {
+      closeSpan();
+      record({ type: 'pause', index: wordIndex(index) });
+    }),
+    playback.on('end', ({ index }) => {
+      closeSpan();
+      record({ type: 'end', index: wordIndex(index) });
+    }),
+    playback.on('seek', ({ from, to }) => {
+      closeSpan();
+      record({ type: 'seek', index: wordIndex(to), from: wordIndex(from), to: wordIndex(to) });
+    }),
+    playback.on('wpm', ({ from, to }) => {
+      record({ type: 'wpm', index: wordIndex(playback.getState().index), from, to });
+    }),
+    playback.on('token', ({ index, token }) => {
+      const word = wordIndex(index);
+      if (span && (span.sentence !== token.sentenceIndex || span.to !== word)) closeSpan();
+      span ??= { from: word, to: word, sentence: token.sentenceIndex };
+      span.to = word + token.wordCount;
+    }),
+  ];
+
+  return {
+    hasEvents: () => recorded || span !== null,
+    flush,
+    dispose: async () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      await flush();
+    },
+  };
+}
+
+/**
+ * Derive session stats from its events
+ */
+export function deriveReadingStats(events: ReadingEvent[]): ReadingStats {
+  let activeMs = 0;
+  let playStart: number | null = null;
+  let wordsShown = 0;
+  let pauses = 0;
+  let rewinds = 0;
+  // A run of seeks with nothing in between is one gesture (e.g. scrubbing)
+  let seekFrom: number | null = null;
+  let seekTo = 0;
+  const wordsSeen = new Set<number>();
+  // Words of each read span, at the playing time it ended
+  const ticks: Array<{ activeAt: number; words: number }> = [];
+  const endSeekRun = () => {
+    if (seekFrom !== null && seekTo < seekFrom) rewinds++;
+    seekFrom = null;
+  };
+
+  for (const event of events) {
+    if (event.type === 'seek') {
+      seekFrom ??= event.from ?? event.index;
+      seekTo = event.to ?? event.index;
+      continue;
+    }
+    endSeekRun();
+
+    switch (event.type) {
+      case 'play':
+        playStart ??= event.at;
+        break;
+      case 'pause':
+      case 'end':
+        if (playStart !== null) {
+          activeMs += event.at - playStart;
+          playStart = null;
+        }
+        if (event.type === 'pause') pauses++;
+        break;
+      case 'read': {
+        const from = event.from ?? event.index;
+        const words = event.index - from;
+        ticks.push({ activeAt: activeMs + (playStart !== null ? event.at - playStart : 0), words });
+        wordsShown += words;
+        for (let w = from; w < event.index; w++) wordsSeen.add(w);
+        break;
+      }
+    }
+  }
+  endSeekRun();
+  // Still playing: count up to the latest event
+  if (playStart !== null && events.length > 0) {
+    activeMs += events[events.length - 1].at - playStart;
+  }
+
+  const effectiveWPM = activeMs > 0 ? Math.round(wordsShown / (activeMs / 60000)) : 0;
+
+  // Sliding 60 s window over playing time; shorter sessions use the average
+  let bestSustainedWPM60s = effectiveWPM;
+  if (activeMs >= SUSTAINED_WINDOW_MS) {
+    let best = 0;
+    let windowWords = 0;
+    let end = 0;
+    for (let start = 0; start < ticks.length; start++) {
+      const windowEnd = ticks[start].activeAt + SUSTAINED_WINDOW_MS;
+      if (windowEnd > activeMs) break;
+      while (end < ticks.length && ticks[end].activeAt < windowEnd) {
+        windowWords += ticks[end].words;
+        end++;
+      }
+      best = Math.max(best, windowWords);
+      windowWords -= ticks[start].words;
+    }
+    bestSustainedWPM60s = best;
+  }
+
+  return {
+    durationSeconds: Math.round(activeMs / 1000),
+    tokensRead: wordsSeen.size,
+    effectiveWPM,
+    bestSustainedWPM60s,
+    pauses,
+    rewinds,
+  };
+}
+
+/**
+ * Bucket pauses, rewinds and slowdowns along a document
+ * @param events Events from any number of sessions, grouped by session
+ * @param totalWords Document length in words
+ */
+export function buildReadingHeatmap(
+  events: ReadingEvent[],
+  totalWords: number,
+  bucketCount = 120
+): HeatBucket[] {
+  const count = Math.max(1, Math.min(bucketCount, totalWords));
+  const buckets: HeatBucket[] = Array.from({ length: count }, (_, i) => ({
+    startWord: Math.floor((i * totalWords) / count),
+    pauses: 0,
+    rewinds: 0,
+    slowdowns: 0,
+    heat: 0,
+  }));
+  const bucketAt = (word: number) =>
+    Math.max(0, Math.min(count - 1, Math.floor((word / Math.max(1, totalWords)) * count)));
+
+  // Seek runs (scrubs) count as one rewind, as in deriveReadingStats
+  let sessionId: string | null = null;
+  let seekFrom: number | null = null;
+  let seekTo = 0;
+  const endSeekRun = () => {
+    if (seekFrom !== null && seekTo < seekFrom) {
+      for (let b = bucketAt(seekTo); b <= bucketAt(seekFrom); b++) buckets[b].rewinds++;
+    }
+    seekFrom = null;
+  };
+
+  for (const event of events) {
+    if (event.sessionId !== sessionId) {
+      endSeekRun();
+      sessionId = event.sessionId;
+    }
+    if (event.type === 'seek') {
+      seekFrom ??= event.from ?? event.index;
+      seekTo = event.to ?? event.index;
+      continue;
+    }
+    endSeekRun();
+
+    if (event.type === 'pause') {
+      buckets[bucketAt(event.index)].pauses++;
+    } else if (event.type === 'wpm' && (event.to ?? 0) < (event.from ?? 0)) {
+      buckets[bucketAt(event.index)].slowdowns++;
+    }
+  }
+  endSeekRun();
+
+  const scores = buckets.map((b) =>
+    b.pauses * HEAT_WEIGHTS.pauses + b.rewinds * HEAT_WEIGHTS.rewinds + b.slowdowns * HEAT_WEIGHTS.slowdowns
+  );
+  const max = Math.max(0, ...scores);
+  if (max > 0) {
+    buckets.forEach((b, i) => {
+      b.heat = scores[i] / max;
+    });
+  }
+
+  return buckets;
+}
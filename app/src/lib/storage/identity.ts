@@ -0,0 +1,59 @@
+/**
+ * Document identity - content hashes and normalised source URLs
+ *
+ * Re-importing the same text or page finds the stored document instead of
+ * creating another one. Both helpers are synchronous so they can also run
+ * inside Dexie upgrade transactions.
+ */
+
+// Query parameters that only track where a visit came from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+/**
+ * 53-bit hash of a document's text as 14 hex digits (cyrb53)
+ * Line endings and surrounding whitespace don't change the hash.
+ */
+export function hashContent(text: string): string {
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < normalized.length; i++) {
+    const ch = normalized.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, '0');
+}
+
+/**
+ * Canonical form of a page URL
+ * Lowercase host without "www.", no fragment, default port, tracking
+ * parameters or trailing slash; remaining query parameters sorted.
+ * Strings that aren't absolute URLs are returned trimmed.
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  if ((parsed.protocol === 'http:' && parsed.port === '80') || (parsed.protocol === 'https:' && parsed.port === '443')) {
+    parsed.port = '';
+  }
+
+  const params = [...parsed.searchParams].filter(([key]) => !TRACKING_PARAMS.test(key));
+  params.sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  if (parsed.pathname.length > 1) parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  return parsed.toString();
+}
@@ -0,0 +1,45 @@
+import { normalizeUrl } from './identity';
+
+/**
+ * Page Position Store - reading positions for the extension overlay
+ *
+ * The overlay runs inside the page, where the app's IndexedDB isn't
+ * reachable, so positions live in chrome.storage.local keyed by normalised
+ * URL. A position only applies while the page's text is unchanged.
+ */
+
+export interface PagePosition {
+  contentHash: string;
+  wordIndex: number;
+  totalWords: number;
+  updatedAt: number; // Epoch ms
+}
+
+const KEY_PREFIX = 'position:';
+
+function storageKey(url: string): string {
+  return KEY_PREFIX + normalizeUrl(url);
+}
+
+/**
+ * Saved position for a page, if its text hasn't changed since
+ * @param contentHash hashContent() of the page's extracted text
+ */
+export async function getPagePosition(url: string, contentHash: string): Promise<PagePosition | null> {
+  const key = storageKey(url);
+  const stored = (await chrome.storage.local.get(key))[key] as PagePosition | undefined;
+  return stored && stored.contentHash === contentHash ? stored : null;
+}
+
+/**
+ * Save a page's position
+ */
+export async function savePagePosition(
+  url: string,
+  contentHash: string,
+  wordIndex: number,
+  totalWords: number
+): Promise<void> {
+  const position: PagePosition = { contentHash, wordIndex, totalWords, updatedAt: Date.now() };
+  await chrome.storage.local.set({ [storageKey(url)]: position });
+}
@@ -0,0 +1,66 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, getSettings, updateSettings } from './db';
+import type { CustomPauseProfile, PauseProfile } from '../../types';
+import { resolvePauseProfile } from '../rsvp/pause-profiles';
+
+/**
+ * Pause Profile Store - CRUD operations for user-defined pause profiles
+ */
+
+/**
+ * Create a custom profile
+ */
+export async function createPauseProfile(name: string, values: PauseProfile): Promise<CustomPauseProfile> {
+  const profile: CustomPauseProfile = {
+    id: uuidv4(),
+    name,
+    values: { ...values },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  await db.pauseProfiles.add(profile);
+  return profile;
+}
+
+/**
+ * Get all custom profiles, oldest first
+ */
+export async function getAllPauseProfiles(): Promise<CustomPauseProfile[]> {
+  const profiles = await db.pauseProfiles.toArray();
+  return profiles.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Rename a custom profile or change its values
+ */
+export async function updatePauseProfile(
+  id: string,
+  updates: Partial<Pick<CustomPauseProfile, 'name' | 'values'>>
+): Promise<void> {
+  await db.pauseProfiles.update(id, {
+    ...updates,
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Delete a custom profile
+ * If it was the active profile, settings fall back to "normal".
+ */
+export async function deletePauseProfile(id: string): Promise<void> {
+  await db.pauseProfiles.delete(id);
+
+  const settings = await getSettings();
+  if (settings.pauseProfile === id) {
+    await updateSettings({ pauseProfile: 'normal' });
+  }
+}
+
+/**
+ * Values of the profile selected in settings
+ */
+export async function getActivePauseProfile(): Promise<PauseProfile> {
+  const settings = await db.settings.get('default');
+  return resolvePauseProfile(settings?.pauseProfile, await getAllPauseProfiles());
+}
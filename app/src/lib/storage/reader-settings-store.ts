@@ -0,0 +1,39 @@
+import type { NonLinearPolicy, PauseProfile } from '../../types';
+import { PAUSE_PROFILES } from '../rsvp/pause-profiles';
+import { DEFAULT_NON_LINEAR_POLICY } from '../extract/non-linear';
+
+/**
+ * Reader Settings Store - the app's reading settings for the extension overlay
+ *
+ * The overlay can't reach the app's IndexedDB, so the app mirrors the
+ * settings that shape tokenization into chrome.storage.local. The pause
+ * profile is stored resolved, so custom profiles need no lookup.
+ */
+
+export interface ReaderSettings {
+  pauseProfile: PauseProfile;
+  nonLinearPolicy: NonLinearPolicy;
+}
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  pauseProfile: PAUSE_PROFILES.normal,
+  nonLinearPolicy: DEFAULT_NON_LINEAR_POLICY,
+};
+
+const STORAGE_KEY = 'readerSettings';
+
+/**
+ * Mirrored settings, or the defaults if the app hasn't saved any
+ */
+export async function getReaderSettings(): Promise<ReaderSettings> {
+  const stored = (await chrome.storage.local.get(STORAGE_KEY))[STORAGE_KEY] as Partial<ReaderSettings> | undefined;
+  return { ...DEFAULT_READER_SETTINGS, ...stored };
+}
+
+/**
+ * Mirror the app's settings; a no-op outside the extension (e.g. the PWA)
+ */
+export async function saveReaderSettings(settings: ReaderSettings): Promise<void> {
+  if (typeof chrome === 'undefined' || !chrome.storage) return;
+  await chrome.storage.local.set({ [STORAGE_KEY]: settings });
+}
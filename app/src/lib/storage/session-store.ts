@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
-import { db } from './db';
-import type { Session } from '../../types';
+import { db, DEFAULT_SETTINGS } from './db';
+import type { Session, SpeedChange } from '../../types';
+import type { ReadingStats } from './event-store';
 
 /**
  * Session Store - CRUD operations for reading sessions
@@ -26,22 +27,7 @@ export async function createSession(documentId: string): Promise<Session> {
     completionDeltaChapter: 0,
     pauses: 0,
     rewinds: 0,
-    settingsSnapshot: settings || {
-      defaultWPM: 300,
-      pauseProfile: 'normal',
-      fontSize: 'M',
-      guidesOn: true,
-      countdownSeconds: 0,
-      theme: 'dark',
-      nonLinearPolicy: {
-        tables: 'skip',
-        figures: 'skip',
-        equations: 'skip',
-        showMarkers: true,
-        snapshotMs: 1200,
-        linearizeThreshold: 0.7,
-      },
-    },
+    settingsSnapshot: { ...DEFAULT_SETTINGS, ...settings },
   };
 
   await db.sessions.add(session);
@@ -50,13 +36,15 @@ export async function createSession(documentId: string): Promise<Session> {
 
 /**
  * Update session progress during playback
+ * @param wordIndex Current position
+ * @param wpm Current target WPM
+ * @param stats Derived from the session's event log
  */
 export async function updateSessionProgress(
   sessionId: string,
-  tokenIndex: number,
+  wordIndex: number,
   wpm: number,
-  isPause: boolean,
-  isRewind: boolean
+  stats: ReadingStats
 ): Promise<void> {
   const session = await db.sessions.get(sessionId);
   if (!session) return;
@@ -65,39 +53,40 @@ export async function updateSessionProgress(
   if (!doc) return;
 
   const currentChapter = doc.chapters.find(
-    ch => tokenIndex >= ch.startTokenIndex && tokenIndex < ch.endTokenIndex
+    ch => wordIndex >= ch.startTokenIndex && wordIndex < ch.endTokenIndex
   );
 
-  // Calculate running average WPM
-  const totalTokensRead = tokenIndex;
-  const newAvgWPM = session.avgWPM > 0
-    ? ((session.avgWPM * session.tokensRead) + wpm) / (session.tokensRead + 1)
-    : wpm;
-
   await db.sessions.update(sessionId, {
-    durationSeconds: Math.floor(
-      (Date.now() - new Date(session.startedAt).getTime()) / 1000
-    ),
+    ...statsUpdate(stats),
     endWPM: wpm,
-    avgWPM: Math.round(newAvgWPM),
-    tokensRead: tokenIndex,
-    completionDeltaOverall: tokenIndex / doc.totalTokens,
+    completionDeltaOverall: wordIndex / doc.totalTokens,
     completionDeltaChapter: currentChapter
-      ? (tokenIndex - currentChapter.startTokenIndex) /
+      ? (wordIndex - currentChapter.startTokenIndex) /
         (currentChapter.endTokenIndex - currentChapter.startTokenIndex)
       : 0,
-    pauses: isPause ? session.pauses + 1 : session.pauses,
-    rewinds: isRewind ? session.rewinds + 1 : session.rewinds,
   });
 }
 
 /**
- * Update session with best sustained WPM and completion data
+ * Append an adaptive WPM change to the session log
+ */
+export async function logSpeedChange(sessionId: string, change: SpeedChange): Promise<void> {
+  const session = await db.sessions.get(sessionId);
+  if (!session) return;
+
+  await db.sessions.update(sessionId, {
+    speedChanges: [...(session.speedChanges || []), change],
+    endWPM: change.to,
+  });
+}
+
+/**
+ * Update session with derived stats and completion data
  */
 export async function finalizeSession(
   sessionId: string,
-  bestSustainedWPM60s: number,
-  finalTokenIndex: number
+  finalTokenIndex: number,
+  stats: ReadingStats
 ): Promise<void> {
   const session = await db.sessions.get(sessionId);
   if (!session) return;
@@ -111,9 +100,8 @@ export async function finalizeSession(
   );
 
   await db.sessions.update(sessionId, {
+    ...statsUpdate(stats),
     endedAt: new Date(),
-    bestSustainedWPM60s,
-    tokensRead: finalTokenIndex,
     completionDeltaOverall: finalTokenIndex / doc.totalTokens,
     completionDeltaChapter: finalChapter
       ? (finalTokenIndex - finalChapter.startTokenIndex) /
@@ -122,6 +110,18 @@ export async function finalizeSession(
   });
 }
 
+// Session fields taken from the event log
+function statsUpdate(stats: ReadingStats): Partial<Session> {
+  return {
+    durationSeconds: stats.durationSeconds,
+    avgWPM: stats.effectiveWPM,
+    bestSustainedWPM60s: stats.bestSustainedWPM60s,
+    tokensRead: stats.tokensRead,
+    pauses: stats.pauses,
+    rewinds: stats.rewinds,
+  };
+}
+
 /**
  * Get latest session for a document
  */
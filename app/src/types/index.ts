@@ -4,11 +4,56 @@ export interface Token {
   text: string;
   orpIndex: number; // Optimal Recognition Point position
   pauseMultiplier: number;
+  pauseBreakdown: PauseBreakdown; // Why the token got extra time; sums to pauseMultiplier
+  wordCount: number; // Words shown in this frame (>1 in chunk mode)
+  direction: TextDirection; // Reading direction of this frame's text
+  start: number; // Character offset in the source text (inclusive)
+  end: number; // Character offset in the source text (exclusive)
+  sentenceIndex: number; // Sentence the token starts in, counted from 0
+  paragraphIndex: number; // Paragraph (non-empty line) the token is in
+  kind: TokenKind;
+  block?: NonLinearBlock; // Set on snapshot frames
+  fixedDurationMs?: number; // Overrides WPM timing (snapshot frames)
 }
 
+// 'marker' is the optional stand-in for a skipped table/figure/equation
+export type TokenKind = 'word' | 'marker' | NonLinearBlock['kind'];
+
+/**
+ * A table, figure or equation lifted out of the reading flow
+ * Its position in canonicalText is a BLOCK_PLACEHOLDER line.
+ */
+export interface NonLinearBlock {
+  kind: 'table' | 'figure' | 'equation';
+  caption?: string;
+  rows?: string[][]; // Tables: first row is the header
+  src?: string; // Figures: image URL
+  source?: string; // Equations: TeX or plain text
+}
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export type Theme = 'dark' | 'light';
+
+export type PauseFactor =
+  | 'punctuation'
+  | 'paragraph'
+  | 'length'
+  | 'numeric'
+  | 'mixedCase'
+  | 'rare';
+
+export type PauseBreakdown = Partial<Record<PauseFactor, number>>;
+
+/**
+ * A chapter or section; a document's chapters are a flat list in reading
+ * order, nested through parentId. A parent's range covers its children.
+ */
 export interface Chapter {
   id: string;
   title: string;
+  level: number; // Heading level: 1 = top (e.g. Part), deeper numbers nest inside
+  parentId?: string;
   startTokenIndex: number;
   endTokenIndex: number;
 }
@@ -16,11 +61,16 @@ export interface Chapter {
 export interface Document {
   id: string;
   title: string;
-  sourceType: 'web' | 'paste' | 'pdf';
-  sourceUrl?: string;
+  author?: string; // From the source's metadata (EPUB)
+  cover?: string; // Cover image as a data URL (EPUB)
+  sourceType: 'web' | 'paste' | 'pdf' | 'epub';
+  sourceUrl?: string; // Normalised (see normalizeUrl)
   canonicalText: string;
-  totalTokens: number;
-  chapters: Chapter[];
+  contentHash: string; // hashContent(canonicalText), for finding re-imports
+  blocks?: NonLinearBlock[]; // In placeholder order within canonicalText
+  language?: string; // BCP 47 tag, detected or from the page's lang attribute
+  totalTokens: number; // Counted in words, like lastPosition
+  chapters: Chapter[]; // Bounds counted in words (see chaptersInWords)
   lastPosition: Position;
   createdAt: Date;
   updatedAt: Date;
@@ -28,7 +78,7 @@ export interface Document {
 }
 
 export interface Position {
-  tokenIndex: number;
+  tokenIndex: number; // Word index, whatever the chunking
   updatedAt: Date;
 }
 
@@ -47,20 +97,99 @@ export interface Session {
   completionDeltaChapter: number;
   pauses: number;
   rewinds: number;
+  speedChanges?: SpeedChange[]; // Adaptive WPM adjustments, oldest first
   settingsSnapshot: UserSettings;
 }
 
+/**
+ * A heading found while extracting text
+ */
+export interface TextHeading {
+  offset: number; // Character offset in the extracted text
+  title: string;
+  level: number; // 1-3
+}
+
+/**
+ * One entry in a session's reading log
+ * Positions are word indices; a `read` event is a run of words shown in
+ * order, at most one sentence, logged when the run ends.
+ */
+export interface ReadingEvent {
+  id?: number; // Auto-increment key, keeps events in recorded order
+  sessionId: string;
+  at: number; // Epoch ms
+  type: 'play' | 'pause' | 'seek' | 'wpm' | 'read' | 'end';
+  index: number; // Position after the event
+  from?: number; // seek: position before; wpm: previous WPM; read: first word shown
+  to?: number; // seek: target position; wpm: new WPM
+}
+
+/**
+ * One adaptive WPM adjustment
+ */
+export interface SpeedChange {
+  at: Date;
+  from: number;
+  to: number;
+  reason: 'rewinds' | 'streak'; // Repeated rewinds / long uninterrupted stretch
+  tokenIndex: number; // Word index, like other stored positions
+}
+
 export interface UserSettings {
   key?: string; // IndexedDB primary key
   defaultWPM: number;
-  pauseProfile: 'fast' | 'normal' | 'slow';
+  pauseProfile: string; // 'fast' | 'normal' | 'slow' or a CustomPauseProfile id
   fontSize: 'S' | 'M' | 'L' | 'XL';
   guidesOn: boolean;
+  heatmapOn: boolean; // Hotspot strip under the progress bar
   countdownSeconds: 0 | 3 | 5;
-  theme: 'dark' | 'light';
+  theme: Theme;
   nonLinearPolicy: NonLinearPolicy;
+  chunking: ChunkSettings;
+  speedRamp: SpeedRamp;
+  adaptiveWpm: AdaptiveWpmSettings;
+  language: 'auto' | string; // 'auto' detects from lang attribute or text
+}
+
+export interface ChunkSettings {
+  size: 1 | 2 | 3 | 4; // Max words per frame (1 = single-word mode)
+  maxChars: number; // Max characters per frame, including spaces
+  crossPunctuation: boolean; // Allow a chunk to continue past , ; : . ! ?
+}
+
+/**
+ * Warm-up ramp: playback starts at startFraction of the target WPM and
+ * speeds up linearly to it over `length` seconds or words. Seeks and
+ * rewinds during playback ramp over the shorter seekLength.
+ */
+export interface SpeedRamp {
+  enabled: boolean;
+  startFraction: number; // 0.5 = start at half speed
+  unit: 'seconds' | 'words';
+  length: number;
+  seekLength: number;
+}
+
+/**
+ * Opt-in adaptive speed: `step` WPM down after repeated rewinds, up after
+ * long uninterrupted stretches, kept within floor..ceiling
+ */
+export interface AdaptiveWpmSettings {
+  enabled: boolean;
+  floor: number;
+  ceiling: number;
+  step: number;
 }
 
+/**
+ * How tables, figures and equations are read
+ * - skip: drop from the flow (a short marker frame if showMarkers)
+ * - snapshot: hold a rendered frame for snapshotMs
+ * - linearize: read a table row by row as phrases, when its complexity
+ *   (cells / 40, capped at 1) is at most linearizeThreshold; larger tables
+ *   fall back to a snapshot
+ */
 export interface NonLinearPolicy {
   tables: 'skip' | 'snapshot' | 'linearize';
   figures: 'skip' | 'snapshot';
@@ -86,4 +215,20 @@ export interface PauseProfile {
   exclamation: number;
   question: number;
   paragraph: number;
+  // Complexity weights, added on top of punctuation pauses
+  longWord: number; // Per character beyond 7
+  numeric: number; // Digits or numbers
+  mixedCase: number; // Acronyms and mixed case (NASA, iPhone)
+  rareWord: number; // Not in the bundled frequency list
+}
+
+/**
+ * A user-defined pause profile, stored in IndexedDB
+ */
+export interface CustomPauseProfile {
+  id: string;
+  name: string;
+  values: PauseProfile;
+  createdAt: Date;
+  updatedAt: Date;
 }